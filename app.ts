@@ -1,15 +1,30 @@
-import {
-  processFishes,
-  processFossils,
-  processInsects,
-  processMusic,
-  processSeaCreatures,
-} from "./src/processors";
-
-await Promise.allSettled([
-  processFishes(),
-  processInsects(),
-  processSeaCreatures(),
-  processFossils(),
-  processMusic(),
-]);
+import { parseOutputFormats } from "./src/processors/formats";
+import { printRunSummary, runPipeline } from "./src/processors/run";
+import { OutputFormat } from "./src/processors/types";
+
+const REPORT_FILE = "data/output/run-report.json";
+
+// Formats come from --formats=json,csv or the OUTPUT_FORMATS environment
+// variable, and default to JSON only.
+const formatsArg = process.argv
+  .find((arg) => arg.startsWith("--formats="))
+  ?.slice("--formats=".length);
+let formats: OutputFormat[];
+try {
+  formats = parseOutputFormats(
+    formatsArg ?? process.env.OUTPUT_FORMATS ?? "json"
+  );
+} catch (error) {
+  console.error((error as Error).message);
+  process.exit(1);
+}
+
+const report = await runPipeline(formats);
+await Bun.write(REPORT_FILE, JSON.stringify(report, null, 2));
+printRunSummary(report);
+console.log(`Wrote ${REPORT_FILE}`);
+
+// Fail the run so output from a broken dataset can't be shipped.
+if (!report.success) {
+  process.exit(1);
+}
@@ -0,0 +1,245 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createHandler } from ".";
+
+const FISHES = [
+  { id: 1, internalId: "1", name: "bitterling", sellAmount: 900 },
+  { id: 2, internalId: "2", name: "pale chub", sellAmount: 200 },
+  { id: 3, internalId: "3", name: "crucian carp", sellAmount: 160 },
+  { id: 4, internalId: "4", name: "dace", sellAmount: 240, shadow: "Medium" },
+];
+
+const VILLAGERS = [
+  { uniqueEntryId: "AhKtu2i9Ne6bT7aCN", name: "Ankha", species: "Cat" },
+  { uniqueEntryId: "Bvbyr2o8Xv4NnZuyc", name: "Bob", species: "Cat" },
+];
+
+let directory: string;
+let server: ReturnType<typeof Bun.serve>;
+
+beforeAll(async () => {
+  directory = await mkdtemp(join(tmpdir(), "acnh-api-"));
+  await Bun.write(
+    join(directory, "fish.json"),
+    JSON.stringify({ fishes: FISHES })
+  );
+  await Bun.write(
+    join(directory, "villagers.json"),
+    JSON.stringify({ records: VILLAGERS })
+  );
+  server = Bun.serve({
+    port: 0,
+    fetch: createHandler({ directory, defaultPageSize: 2 }),
+  });
+});
+
+afterAll(async () => {
+  server.stop(true);
+  await rm(directory, { recursive: true });
+});
+
+const request = (path: string, init?: RequestInit) =>
+  fetch(`http://localhost:${server.port}${path}`, init);
+
+async function names(path: string) {
+  const response = await request(path);
+  expect(response.status).toBe(200);
+  const { records } = await response.json();
+  return records.map((record: { name: string }) => record.name);
+}
+
+describe("routing", () => {
+  test("serves a dataset on the route named after its file", async () => {
+    const response = await request("/fish?pageSize=10");
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toContain("application/json");
+    expect(await response.json()).toEqual({
+      records: FISHES,
+      page: 1,
+      pageSize: 10,
+      total: 4,
+    });
+  });
+
+  test("serves a single record by id", async () => {
+    const response = await request("/fish/2");
+    expect(await response.json()).toEqual(FISHES[1]);
+    expect((await request("/fish/9")).status).toBe(404);
+  });
+
+  test("serves a single record by the dataset's key", async () => {
+    const response = await request("/villagers/Bvbyr2o8Xv4NnZuyc");
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual(VILLAGERS[1]);
+    expect((await request("/villagers/Bob")).status).toBe(404);
+  });
+
+  test("responds 404 to unknown routes", async () => {
+    expect((await request("/nope")).status).toBe(404);
+    expect((await request("/fish/1/extra")).status).toBe(404);
+  });
+
+  test("responds 405 to methods other than GET and HEAD", async () => {
+    const response = await request("/fish", { method: "POST" });
+    expect(response.status).toBe(405);
+    expect(response.headers.get("Allow")).toBe("GET, HEAD");
+  });
+
+  test("responds 503 when a dataset hasn't been generated", async () => {
+    expect((await request("/insects")).status).toBe(503);
+  });
+});
+
+describe("queries", () => {
+  test("filter by any field", async () => {
+    expect(await names("/fish?sellAmount=200")).toEqual(["pale chub"]);
+  });
+
+  test("sort ascending and descending", async () => {
+    expect(await names("/fish?sort=sellAmount&pageSize=10")).toEqual([
+      "crucian carp",
+      "pale chub",
+      "dace",
+      "bitterling",
+    ]);
+    expect(await names("/fish?sort=-sellAmount&pageSize=10")).toEqual([
+      "bitterling",
+      "dace",
+      "pale chub",
+      "crucian carp",
+    ]);
+  });
+
+  test("sort records without the field last", async () => {
+    expect(await names("/fish?sort=-shadow&pageSize=10")).toEqual([
+      "dace",
+      "bitterling",
+      "pale chub",
+      "crucian carp",
+    ]);
+  });
+
+  test("select fields", async () => {
+    const response = await request("/fish?fields=name,shadow&sort=-shadow");
+    const { records } = await response.json();
+    expect(records).toEqual([
+      { name: "dace", shadow: "Medium" },
+      { name: "bitterling" },
+    ]);
+
+    const record = await (await request("/fish/1?fields=name")).json();
+    expect(record).toEqual({ name: "bitterling" });
+  });
+
+  test("paginate", async () => {
+    const response = await request("/fish?sort=id&page=2");
+    expect(await response.json()).toMatchObject({
+      records: [FISHES[2], FISHES[3]],
+      page: 2,
+      pageSize: 2,
+      total: 4,
+    });
+    expect(await names("/fish?page=3")).toEqual([]);
+  });
+
+  test("reject unknown fields and bad page numbers", async () => {
+    for (const query of [
+      "nope=1",
+      "sort=nope",
+      "fields=name,nope",
+      "page=0",
+      "pageSize=501",
+      "page=1.5",
+    ]) {
+      const response = await request(`/fish?${query}`);
+      expect({ query, status: response.status }).toEqual({
+        query,
+        status: 400,
+      });
+      expect((await response.json()).error).toBeString();
+    }
+  });
+});
+
+describe("caching", () => {
+  test("responds 304 when the ETag matches", async () => {
+    const response = await request("/fish");
+    const etag = response.headers.get("ETag")!;
+    expect(etag).toBeTruthy();
+
+    const cached = await request("/fish", {
+      headers: { "If-None-Match": etag },
+    });
+    expect(cached.status).toBe(304);
+    expect(await cached.text()).toBe("");
+
+    const other = await request("/fish?page=2", {
+      headers: { "If-None-Match": etag },
+    });
+    expect(other.status).toBe(200);
+  });
+
+  test("responds 304 when not modified since", async () => {
+    const response = await request("/fish");
+    const lastModified = response.headers.get("Last-Modified")!;
+
+    const cached = await request("/fish", {
+      headers: { "If-Modified-Since": lastModified },
+    });
+    expect(cached.status).toBe(304);
+
+    const stale = await request("/fish", {
+      headers: { "If-Modified-Since": new Date(0).toUTCString() },
+    });
+    expect(stale.status).toBe(200);
+  });
+});
+
+describe("turnip predictions", () => {
+  const predict = (body: string) =>
+    request("/turnips/predict", { method: "POST", body });
+
+  test("predicts from the prices seen so far", async () => {
+    const response = await predict('{"buyPrice":97,"monday":{"am":85}}');
+    expect(response.status).toBe(200);
+    const [all, ...possibilities] = await response.json();
+    expect(all.prices[0]).toMatchObject({ min: 85, max: 85 });
+    expect(possibilities.length).toBeGreaterThan(0);
+  });
+
+  test("responds 405 to other methods", async () => {
+    const response = await request("/turnips/predict");
+    expect(response.status).toBe(405);
+    expect(response.headers.get("Allow")).toBe("POST");
+  });
+
+  test("responds 400 to bodies that aren't a JSON object", async () => {
+    for (const body of ["not json", "null", "[]", "[97]", "97", '"97"']) {
+      const response = await predict(body);
+      expect({ body, status: response.status }).toEqual({ body, status: 400 });
+    }
+  });
+
+  test("responds 400 to invalid prices", async () => {
+    const response = await predict('{"buyPrice":97,"monday":{"am":-1}}');
+    expect(response.status).toBe(400);
+  });
+
+  test("responds 400 to invalid previous patterns", async () => {
+    for (const body of [
+      '{"buyPrice":97,"previousPattern":7}',
+      '{"buyPrice":97,"previousPatternProbabilities":["x",0,0,0]}',
+    ]) {
+      const response = await predict(body);
+      expect({ body, status: response.status }).toEqual({ body, status: 400 });
+    }
+  });
+
+  test("responds 422 when the prices match no pattern", async () => {
+    const response = await predict('{"buyPrice":100,"monday":{"am":600}}');
+    expect(response.status).toBe(422);
+    expect((await response.json()).error).toContain("don't match any pattern");
+  });
+});
@@ -0,0 +1,280 @@
+import { Predictor } from "../features/turnip-friends/predictionEngine";
+import { datasets } from "../processors/datasets";
+import { AnyDatasetDefinition } from "../processors/types";
+import { ApiOptions, ApiRecord, Page } from "./types";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+// Query parameters that shape the response; any other parameter filters
+// records by the field of the same name.
+const RESERVED_PARAMS = ["fields", "sort", "page", "pageSize"];
+
+interface LoadedDataset {
+  lastModified: number;
+  records: ApiRecord[];
+  /** Every top-level field used by at least one record. */
+  fields: Set<string>;
+}
+
+function errorResponse(status: number, message: string, headers?: HeadersInit) {
+  return Response.json({ error: message }, { status, headers });
+}
+
+/** Route a dataset is served on, e.g. "/sea-creatures" for sea-creatures.json. */
+function routeOf(definition: AnyDatasetDefinition) {
+  return `/${definition.output.replace(/\.json$/, "")}`;
+}
+
+function checkField(dataset: LoadedDataset, field: string) {
+  if (!dataset.fields.has(field)) {
+    throw new Error(`Unknown field "${field}"`);
+  }
+}
+
+function parsePositiveInteger(
+  name: string,
+  value: string | null,
+  max = Infinity
+) {
+  if (value === null) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1 || number > max) {
+    throw new Error(
+      `${name} must be a whole number between 1 and ${max}, got "${value}"`
+    );
+  }
+  return number;
+}
+
+function compareValues(a: unknown, b: unknown) {
+  if (typeof a === "number" && typeof b === "number") {
+    return a - b;
+  }
+  // Numbers sort before non-numeric prices such as "NFS" and "NA".
+  if (typeof a === "number") {
+    return -1;
+  }
+  if (typeof b === "number") {
+    return 1;
+  }
+  return String(a).localeCompare(String(b));
+}
+
+/**
+ * Sorts by a field, e.g. "sellAmount", or "-sellAmount" for descending.
+ * Records without the field always come last.
+ */
+function sortRecords(
+  dataset: LoadedDataset,
+  records: ApiRecord[],
+  sort: string
+) {
+  const descending = sort.startsWith("-");
+  const field = descending ? sort.slice(1) : sort;
+  checkField(dataset, field);
+
+  return records.slice().sort((a, b) => {
+    const [x, y] = [a[field], b[field]];
+    if (x === undefined || y === undefined) {
+      return x === undefined ? (y === undefined ? 0 : 1) : -1;
+    }
+    const order = compareValues(x, y);
+    return descending ? -order : order;
+  });
+}
+
+function selectFields(dataset: LoadedDataset, fields: string | null) {
+  if (!fields) {
+    return (record: ApiRecord) => record;
+  }
+  const selected = fields.split(",").filter((field) => field !== "");
+  selected.forEach((field) => checkField(dataset, field));
+  return (record: ApiRecord) =>
+    Object.fromEntries(
+      selected
+        .filter((field) => field in record)
+        .map((field) => [field, record[field]])
+    );
+}
+
+/**
+ * Applies the filters, sorting and pagination in the query string to a
+ * dataset. Throws if the query refers to a field the dataset doesn't have.
+ */
+function queryDataset(
+  dataset: LoadedDataset,
+  params: URLSearchParams,
+  defaultPageSize: number
+): Page<ApiRecord> {
+  let records = dataset.records;
+  for (const [field, value] of params) {
+    if (RESERVED_PARAMS.includes(field)) {
+      continue;
+    }
+    checkField(dataset, field);
+    records = records.filter((record) => String(record[field]) === value);
+  }
+
+  const sort = params.get("sort");
+  if (sort) {
+    records = sortRecords(dataset, records, sort);
+  }
+
+  const page = parsePositiveInteger("page", params.get("page")) ?? 1;
+  const pageSize =
+    parsePositiveInteger("pageSize", params.get("pageSize"), MAX_PAGE_SIZE) ??
+    defaultPageSize;
+  const select = selectFields(dataset, params.get("fields"));
+
+  return {
+    records: records.slice((page - 1) * pageSize, page * pageSize).map(select),
+    page,
+    pageSize,
+    total: records.length,
+  };
+}
+
+/**
+ * Responds with `body`, or with 304 Not Modified when the client's cached
+ * copy is still current.
+ */
+function cachedResponse(request: Request, body: unknown, lastModified: number) {
+  const text = JSON.stringify(body);
+  const etag = `"${Bun.hash(text).toString(16)}"`;
+  const headers = {
+    "Content-Type": "application/json;charset=utf-8",
+    ETag: etag,
+    "Last-Modified": new Date(lastModified).toUTCString(),
+  };
+
+  const ifNoneMatch = request.headers.get("If-None-Match");
+  const ifModifiedSince = request.headers.get("If-Modified-Since");
+  // If-None-Match takes precedence when both are sent.
+  const notModified = ifNoneMatch
+    ? ifNoneMatch.split(",").some((tag) => tag.trim() === etag)
+    : ifModifiedSince !== null &&
+      Date.parse(ifModifiedSince) >= Math.floor(lastModified / 1000) * 1000;
+
+  if (notModified) {
+    return new Response(null, { status: 304, headers });
+  }
+  return new Response(text, { headers });
+}
+
+async function predictTurnips(request: Request) {
+  if (request.method !== "POST") {
+    return errorResponse(405, "Use POST", { Allow: "POST" });
+  }
+
+  let input;
+  try {
+    input = await request.json();
+  } catch {
+    return errorResponse(400, "Request body must be JSON");
+  }
+
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return errorResponse(400, "Request body must be a JSON object");
+  }
+
+  let predictions;
+  try {
+    predictions = new Predictor(input).analyzePossibilities();
+  } catch (error) {
+    return errorResponse(400, (error as Error).message);
+  }
+  // The first prediction sums up the others, so it's there even without any.
+  if (predictions.length === 1) {
+    return errorResponse(
+      422,
+      "These prices don't match any pattern; check them for typos"
+    );
+  }
+  return Response.json(predictions);
+}
+
+/**
+ * Creates a fetch handler serving the processed datasets under data/output,
+ * one route per dataset, plus turnip predictions. Datasets are re-read when
+ * their file changes.
+ */
+export function createHandler(options: ApiOptions = {}) {
+  const { directory = "data/output", defaultPageSize = DEFAULT_PAGE_SIZE } =
+    options;
+  const routes = new Map(
+    datasets.map((definition) => [routeOf(definition), definition])
+  );
+  const loaded = new Map<string, LoadedDataset>();
+
+  async function loadDataset(
+    definition: AnyDatasetDefinition
+  ): Promise<LoadedDataset | undefined> {
+    const file = Bun.file(`${directory}/${definition.output}`);
+    if (!(await file.exists())) {
+      return undefined;
+    }
+
+    const cached = loaded.get(definition.output);
+    if (cached && cached.lastModified === file.lastModified) {
+      return cached;
+    }
+
+    const records: ApiRecord[] = (await file.json())[definition.outputKey];
+    const dataset = {
+      lastModified: file.lastModified,
+      records,
+      fields: new Set(records.flatMap((record) => Object.keys(record))),
+    };
+    loaded.set(definition.output, dataset);
+    return dataset;
+  }
+
+  return async function handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    if (url.pathname === "/turnips/predict") {
+      return predictTurnips(request);
+    }
+
+    const [, route, key, ...rest] = url.pathname.split("/");
+    const definition = routes.get(`/${route}`);
+    if (!definition || rest.length > 0) {
+      return errorResponse(404, `No route for ${url.pathname}`);
+    }
+    if (request.method !== "GET" && request.method !== "HEAD") {
+      return errorResponse(405, "Use GET", { Allow: "GET, HEAD" });
+    }
+
+    const dataset = await loadDataset(definition);
+    if (!dataset) {
+      return errorResponse(
+        503,
+        `${definition.output} hasn't been generated yet, run bun run app.ts`
+      );
+    }
+
+    try {
+      if (key) {
+        const id = decodeURIComponent(key);
+        const keyField = definition.key ?? "internalId";
+        const record = dataset.records.find(
+          (it) => String(it.id) === id || String(it[keyField]) === id
+        );
+        if (!record) {
+          return errorResponse(404, `No record with id "${id}" in /${route}`);
+        }
+        const select = selectFields(dataset, url.searchParams.get("fields"));
+        return cachedResponse(request, select(record), dataset.lastModified);
+      }
+
+      return cachedResponse(
+        request,
+        queryDataset(dataset, url.searchParams, defaultPageSize),
+        dataset.lastModified
+      );
+    } catch (error) {
+      return errorResponse(400, (error as Error).message);
+    }
+  };
+}
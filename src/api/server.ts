@@ -0,0 +1,10 @@
+import { createHandler } from ".";
+
+const port = parseInt(process.env.PORT ?? "3000", 10);
+
+const server = Bun.serve({
+  port,
+  fetch: createHandler(),
+});
+
+console.log(`Serving data/output on http://localhost:${server.port}`);
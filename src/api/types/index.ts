@@ -0,0 +1,15 @@
+export interface ApiOptions {
+  /** Directory the processed datasets are read from. */
+  directory?: string;
+  /** Records per page when the request doesn't say. */
+  defaultPageSize?: number;
+}
+
+export interface Page<T> {
+  records: T[];
+  page: number;
+  pageSize: number;
+  total: number;
+}
+
+export type ApiRecord = Record<string, unknown>;
@@ -0,0 +1,40 @@
+import { diffSnapshots, formatMarkdown } from ".";
+
+const USAGE = `Usage: bun run diff_datasets [options] [before] [after]
+
+Compares two snapshots of the processed output and prints what changed.
+A snapshot is a directory of output files or a git revision, whose committed
+data/output is used. Defaults to comparing HEAD with data/output.
+
+Options:
+  --json    Print the changes as JSON instead of markdown
+  --help    Show this message`;
+
+async function main() {
+  const args = Bun.argv.slice(2);
+  if (args.includes("--help")) {
+    console.log(USAGE);
+    return;
+  }
+
+  const json = args.includes("--json");
+  const unknown = args.find((arg) => arg.startsWith("--") && arg !== "--json");
+  if (unknown) {
+    throw new Error(`Unknown option ${unknown}\n\n${USAGE}`);
+  }
+  const snapshots = args.filter((arg) => !arg.startsWith("--"));
+  if (snapshots.length > 2) {
+    throw new Error(`Expected at most two snapshots\n\n${USAGE}`);
+  }
+
+  const [before = "HEAD", after = "data/output"] = snapshots;
+  const diff = await diffSnapshots(before, after);
+  console.log(json ? JSON.stringify(diff, null, 2) : formatMarkdown(diff));
+}
+
+try {
+  await main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,39 @@
+import { describe, expect, test } from "bun:test";
+import { formatMarkdown } from ".";
+import { FieldChange } from "./types";
+
+function changelog(...fields: Array<FieldChange>) {
+  return formatMarkdown({
+    before: "HEAD",
+    after: "data/output",
+    datasets: [
+      {
+        dataset: "fishes",
+        file: "fish.json",
+        added: [],
+        removed: [],
+        modified: [{ key: "56", name: "bitterling", fields, schedules: [] }],
+      },
+    ],
+  });
+}
+
+describe("formatMarkdown", () => {
+  test("shows strings as they are", () => {
+    const markdown = changelog(
+      { field: "shadow", before: "Small", after: "Medium" },
+      { field: "description", before: "a | b", after: undefined }
+    );
+    expect(markdown).toContain("| `shadow` | Small | Medium |");
+    expect(markdown).toContain("| `description` | a \\| b | _none_ |");
+  });
+
+  test("tells type-only changes apart", () => {
+    const markdown = changelog(
+      { field: "sellAmount", before: "900", after: 900 },
+      { field: "shadow", before: "", after: undefined }
+    );
+    expect(markdown).toContain('| `sellAmount` | "900" | 900 |');
+    expect(markdown).toContain('| `shadow` | "" | _none_ |');
+  });
+});
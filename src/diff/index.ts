@@ -0,0 +1,294 @@
+import { stat } from "node:fs/promises";
+import { datasets } from "../processors/datasets";
+import { AnyDatasetDefinition } from "../processors/types";
+import { Availability, MONTHS } from "../types";
+import {
+  DatasetDiff,
+  FieldChange,
+  RecordChange,
+  ScheduleChange,
+  SnapshotDiff,
+} from "./types";
+
+type OutputRecord = Record<string, unknown>;
+
+const HEMISPHERES = [
+  ["NH", "northernHemisphere"],
+  ["SH", "southernHemisphere"],
+] as const;
+
+async function isDirectory(path: string) {
+  return stat(path)
+    .then((stats) => stats.isDirectory())
+    .catch(() => false);
+}
+
+/**
+ * Reads an output file from a snapshot, which is either a directory of
+ * processed output or a git revision to read data/output from. Returns
+ * undefined when the snapshot doesn't have the file.
+ */
+async function readOutputFile(
+  snapshot: string,
+  file: string
+): Promise<OutputRecord | undefined> {
+  if (await isDirectory(snapshot)) {
+    const output = Bun.file(`${snapshot}/${file}`);
+    return (await output.exists()) ? output.json() : undefined;
+  }
+
+  const show = Bun.spawnSync([
+    "git",
+    "show",
+    `${snapshot}:data/output/${file}`,
+  ]);
+  return show.success ? JSON.parse(show.stdout.toString()) : undefined;
+}
+
+async function checkSnapshot(snapshot: string) {
+  if (await isDirectory(snapshot)) {
+    return;
+  }
+  const revision = Bun.spawnSync([
+    "git",
+    "rev-parse",
+    "--verify",
+    "--quiet",
+    `${snapshot}^{commit}`,
+  ]);
+  if (!revision.success) {
+    throw new Error(`"${snapshot}" is neither a directory nor a git revision`);
+  }
+}
+
+function isObject(value: unknown): value is OutputRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function nameOf(record: OutputRecord, key: string) {
+  return typeof record.name === "string" ? record.name : key;
+}
+
+/** A record's availability in one month, or "" when it has none. */
+function scheduleOf(
+  record: OutputRecord,
+  hemisphere: keyof Availability,
+  month: string
+) {
+  const schedules = isObject(record.availability)
+    ? record.availability[hemisphere]
+    : undefined;
+  const schedule: unknown = Array.isArray(schedules)
+    ? schedules.find((it: unknown) => isObject(it) && it.month === month)
+    : undefined;
+  return isObject(schedule) && typeof schedule.availability === "string"
+    ? schedule.availability
+    : "";
+}
+
+/** Compares nested objects field by field; anything else is compared whole. */
+function diffValues(
+  changes: Array<FieldChange>,
+  field: string,
+  before: unknown,
+  after: unknown
+) {
+  if (isObject(before) && isObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      diffValues(changes, `${field}.${key}`, before[key], after[key]);
+    }
+  } else if (JSON.stringify(before) !== JSON.stringify(after)) {
+    changes.push({ field, before, after });
+  }
+}
+
+function diffSchedules(
+  before: OutputRecord,
+  after: OutputRecord
+): Array<ScheduleChange> {
+  const changes: Array<ScheduleChange> = [];
+  for (const [hemisphere, key] of HEMISPHERES) {
+    for (const month of MONTHS) {
+      const [was, is] = [
+        scheduleOf(before, key, month),
+        scheduleOf(after, key, month),
+      ];
+      if (was !== is) {
+        changes.push({ hemisphere, month, before: was, after: is });
+      }
+    }
+  }
+  return changes;
+}
+
+function diffRecord(
+  key: string,
+  before: OutputRecord,
+  after: OutputRecord
+): RecordChange {
+  const fields: Array<FieldChange> = [];
+  const names = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const field of names) {
+    if (field !== "availability") {
+      diffValues(fields, field, before[field], after[field]);
+    }
+  }
+
+  return {
+    key,
+    name: nameOf(after, key),
+    fields,
+    schedules: diffSchedules(before, after),
+  };
+}
+
+async function diffDataset(
+  definition: AnyDatasetDefinition,
+  before: string,
+  after: string
+): Promise<DatasetDiff> {
+  const keyField = definition.key ?? "internalId";
+  const recordsOf = async (snapshot: string) => {
+    const output = await readOutputFile(snapshot, definition.output);
+    const records = output?.[definition.outputKey];
+    if (!Array.isArray(records)) {
+      return new Map<string, OutputRecord>();
+    }
+    return new Map(
+      records
+        .filter(isObject)
+        .map((record) => [String(record[keyField]), record])
+    );
+  };
+  const [was, is] = [await recordsOf(before), await recordsOf(after)];
+  const summary = (key: string, record: OutputRecord) => ({
+    key,
+    name: nameOf(record, key),
+  });
+
+  return {
+    dataset: definition.label,
+    file: definition.output,
+    added: [...is]
+      .filter(([key]) => !was.has(key))
+      .map(([key, record]) => summary(key, record)),
+    removed: [...was]
+      .filter(([key]) => !is.has(key))
+      .map(([key, record]) => summary(key, record)),
+    modified: [...is]
+      .filter(([key]) => was.has(key))
+      .map(([key, record]) => diffRecord(key, was.get(key)!, record))
+      .filter((change) => change.fields.length + change.schedules.length > 0),
+  };
+}
+
+/**
+ * Compares two snapshots of the processed output, matching records by each
+ * dataset's key. A snapshot is a directory such as data/output, or a git
+ * revision whose committed data/output is used.
+ */
+export async function diffSnapshots(
+  before: string,
+  after: string
+): Promise<SnapshotDiff> {
+  await checkSnapshot(before);
+  await checkSnapshot(after);
+
+  const diffs: Array<DatasetDiff> = [];
+  for (const definition of datasets) {
+    diffs.push(await diffDataset(definition, before, after));
+  }
+  return { before, after, datasets: diffs };
+}
+
+function hasChanges(diff: DatasetDiff) {
+  return diff.added.length + diff.removed.length + diff.modified.length > 0;
+}
+
+/**
+ * Renders a value for a table cell. Strings are shown as they are unless
+ * `exact` is set, which renders every value as JSON so that "56" and 56 can be
+ * told apart.
+ */
+function markdownCell(value: unknown, exact = false) {
+  if (value === undefined || (value === "" && !exact)) {
+    return "_none_";
+  }
+  const text =
+    typeof value === "string" && !exact ? value : JSON.stringify(value);
+  return text.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+}
+
+function markdownRecord(change: RecordChange) {
+  const rows = [
+    ...change.fields.map((it) => [`\`${it.field}\``, it.before, it.after]),
+    ...change.schedules.map((it) => [
+      `${it.hemisphere} ${it.month}`,
+      it.before,
+      it.after,
+    ]),
+  ];
+  return [
+    `#### ${change.name} (\`${change.key}\`)`,
+    "",
+    "| Field | Before | After |",
+    "| --- | --- | --- |",
+    ...rows
+      .map(([field, before, after]) => {
+        // Only the type changed, e.g. from "56" to 56.
+        const exact = markdownCell(before) === markdownCell(after);
+        return [
+          field,
+          markdownCell(before, exact),
+          markdownCell(after, exact),
+        ].join(" | ");
+      })
+      .map((row) => `| ${row} |`),
+    "",
+  ];
+}
+
+/** Renders a diff as a markdown changelog, one section per changed dataset. */
+export function formatMarkdown(diff: SnapshotDiff): string {
+  const lines = [
+    "# Data changes",
+    "",
+    `Comparing \`${diff.before}\` to \`${diff.after}\`.`,
+    "",
+    "| Dataset | Added | Removed | Modified |",
+    "| --- | ---: | ---: | ---: |",
+    ...diff.datasets.map(
+      (it) =>
+        `| ${it.dataset} | ${it.added.length} | ${it.removed.length} | ${it.modified.length} |`
+    ),
+    "",
+  ];
+
+  const changed = diff.datasets.filter(hasChanges);
+  if (changed.length === 0) {
+    lines.push("No changes.", "");
+  }
+  for (const dataset of changed) {
+    const title = dataset.dataset[0].toUpperCase() + dataset.dataset.slice(1);
+    lines.push(`## ${title}`, "");
+    if (dataset.added.length > 0) {
+      lines.push("### Added", "");
+      lines.push(...dataset.added.map((it) => `- ${it.name} (\`${it.key}\`)`));
+      lines.push("");
+    }
+    if (dataset.removed.length > 0) {
+      lines.push("### Removed", "");
+      lines.push(
+        ...dataset.removed.map((it) => `- ${it.name} (\`${it.key}\`)`)
+      );
+      lines.push("");
+    }
+    if (dataset.modified.length > 0) {
+      lines.push("### Modified", "");
+      lines.push(...dataset.modified.flatMap(markdownRecord));
+    }
+  }
+
+  return lines.join("\n");
+}
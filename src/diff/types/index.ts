@@ -0,0 +1,37 @@
+export interface RecordSummary {
+  key: string;
+  name: string;
+}
+
+/** A changed field, with nested fields named by their path, e.g. "birthday.day". */
+export interface FieldChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface ScheduleChange {
+  hemisphere: "NH" | "SH";
+  month: string;
+  before: string;
+  after: string;
+}
+
+export interface RecordChange extends RecordSummary {
+  fields: Array<FieldChange>;
+  schedules: Array<ScheduleChange>;
+}
+
+export interface DatasetDiff {
+  dataset: string;
+  file: string;
+  added: Array<RecordSummary>;
+  removed: Array<RecordSummary>;
+  modified: Array<RecordChange>;
+}
+
+export interface SnapshotDiff {
+  before: string;
+  after: string;
+  datasets: Array<DatasetDiff>;
+}
@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test";
+import { isAvailableAt } from ".";
+import { parseSchedule } from "../../processors/availability";
+import { Fish, MONTHS } from "../../types";
+
+// Found from November to February between 9 PM and 4 AM in the north, and
+// all day from May to August in the south.
+function critter(): Fish {
+  return {
+    id: 1,
+    internalId: "1",
+    name: "test fish",
+    sellAmount: 100,
+    description: "",
+    imageUrl: "",
+    catchDifficulty: "Medium",
+    shadow: "Medium",
+    vision: "Medium",
+    availability: {
+      northernHemisphere: MONTHS.map((month) =>
+        parseSchedule(
+          month,
+          ["Nov", "Dec", "Jan", "Feb"].includes(month) ? "9 PM – 4 AM" : "NA"
+        )
+      ),
+      southernHemisphere: MONTHS.map((month) =>
+        parseSchedule(
+          month,
+          ["May", "Jun", "Jul", "Aug"].includes(month) ? "All day" : "NA"
+        )
+      ),
+    },
+  };
+}
+
+// Months are 0-based in Date.
+const at = (month: number, day: number, hour: number, minute = 0) =>
+  new Date(2024, month, day, hour, minute);
+
+describe("isAvailableAt", () => {
+  test("month ranges wrap past the end of the year", () => {
+    const fish = critter();
+    expect(isAvailableAt(fish, at(10, 1, 22), "northern")).toBe(true);
+    expect(isAvailableAt(fish, at(11, 31, 23), "northern")).toBe(true);
+    expect(isAvailableAt(fish, at(0, 1, 0), "northern")).toBe(true);
+    expect(isAvailableAt(fish, at(1, 29, 1), "northern")).toBe(true);
+  });
+
+  test("months outside the range are unavailable", () => {
+    const fish = critter();
+    expect(isAvailableAt(fish, at(9, 31, 23), "northern")).toBe(false);
+    expect(isAvailableAt(fish, at(2, 1, 0), "northern")).toBe(false);
+  });
+
+  test("hour ranges cross midnight", () => {
+    const fish = critter();
+    expect(isAvailableAt(fish, at(11, 15, 23, 59), "northern")).toBe(true);
+    expect(isAvailableAt(fish, at(11, 16, 0), "northern")).toBe(true);
+    expect(isAvailableAt(fish, at(11, 15, 12), "northern")).toBe(false);
+  });
+
+  test("the start hour is included and the end hour is not", () => {
+    const fish = critter();
+    expect(isAvailableAt(fish, at(11, 15, 20, 59), "northern")).toBe(false);
+    expect(isAvailableAt(fish, at(11, 15, 21), "northern")).toBe(true);
+    expect(isAvailableAt(fish, at(11, 15, 3, 59), "northern")).toBe(true);
+    expect(isAvailableAt(fish, at(11, 15, 4), "northern")).toBe(false);
+  });
+
+  test("uses the given hemisphere's schedule", () => {
+    const fish = critter();
+    expect(isAvailableAt(fish, at(11, 15, 22), "southern")).toBe(false);
+    expect(isAvailableAt(fish, at(5, 15, 12), "southern")).toBe(true);
+    expect(isAvailableAt(fish, at(7, 31, 23), "southern")).toBe(true);
+    expect(isAvailableAt(fish, at(8, 1, 0), "southern")).toBe(false);
+  });
+
+  test("critters without availability are never available", () => {
+    const fish = { ...critter(), availability: undefined };
+    expect(isAvailableAt(fish, at(11, 15, 22), "northern")).toBe(false);
+  });
+});
@@ -0,0 +1,111 @@
+import { Fish, Insect, MONTHS, SeaCreature } from "../../types";
+import {
+  CatchableQuery,
+  CatchableResult,
+  CritterData,
+  Hemisphere,
+  Weather,
+} from "./types";
+
+type Critter = Fish | Insect | SeaCreature;
+
+export async function loadCritters(directory = "data/output") {
+  const [fish, insects, seaCreatures] = await Promise.all([
+    Bun.file(`${directory}/fish.json`).json(),
+    Bun.file(`${directory}/insects.json`).json(),
+    Bun.file(`${directory}/sea-creatures.json`).json(),
+  ]);
+
+  return {
+    fishes: fish.fishes,
+    insects: insects.insects,
+    seaCreatures: seaCreatures.records,
+  } as CritterData;
+}
+
+export function getSchedules(critter: Critter, hemisphere: Hemisphere) {
+  const schedules =
+    hemisphere === "northern"
+      ? critter.availability?.northernHemisphere
+      : critter.availability?.southernHemisphere;
+
+  return schedules ?? [];
+}
+
+export function isAvailableAt(
+  critter: Critter,
+  date: Date,
+  hemisphere: Hemisphere
+) {
+  const schedule = getSchedules(critter, hemisphere).find(
+    (s) => s.month === MONTHS[date.getMonth()]
+  );
+
+  return !!schedule && schedule.hourMask[date.getHours()];
+}
+
+function matchesWeather(insect: Insect, weather?: Weather) {
+  if (!weather) {
+    return true;
+  }
+
+  switch (insect.weather) {
+    case "Any except rain":
+      return weather !== "rain";
+    case "Rain only":
+      return weather === "rain";
+    default:
+      return true;
+  }
+}
+
+function matchesQuery(critter: Critter, query: CatchableQuery) {
+  if (!isAvailableAt(critter, query.date, query.hemisphere)) {
+    return false;
+  }
+
+  if (
+    query.where &&
+    !critter.where?.toLowerCase().includes(query.where.toLowerCase())
+  ) {
+    return false;
+  }
+
+  if (query.shadow) {
+    const shadow = "shadow" in critter ? critter.shadow : undefined;
+    if (shadow?.toLowerCase() !== query.shadow.toLowerCase()) {
+      return false;
+    }
+  }
+
+  if (
+    query.minSellAmount !== undefined &&
+    critter.sellAmount < query.minSellAmount
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Returns the fish, insects and sea creatures that can be caught at the
+ * query's date and local hour in the given hemisphere.
+ * Critters that lack a field used by a filter (e.g. insects have no shadow)
+ * never match that filter.
+ */
+export function findCatchable(
+  data: CritterData,
+  query: CatchableQuery
+): CatchableResult {
+  return {
+    fishes: data.fishes.filter((fish) => matchesQuery(fish, query)),
+    insects: data.insects.filter(
+      (insect) =>
+        matchesQuery(insect, query) && matchesWeather(insect, query.weather)
+    ),
+    seaCreatures: data.seaCreatures.filter((seaCreature) =>
+      matchesQuery(seaCreature, query)
+    ),
+  };
+}
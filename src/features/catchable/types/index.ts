@@ -0,0 +1,25 @@
+import { Fish, Insect, SeaCreature } from "../../../types";
+
+export type Hemisphere = "northern" | "southern";
+
+export type Weather = "clear" | "rain";
+
+export interface CatchableQuery {
+  date: Date;
+  hemisphere: Hemisphere;
+  /** Case-insensitive substring of the critter's `where`, e.g. "river" or "flying near flowers". */
+  where?: string;
+  /** Exact shadow size, e.g. "Large" (does not match "X-Large"). */
+  shadow?: string;
+  /** Current weather; only narrows down insects. */
+  weather?: Weather;
+  minSellAmount?: number;
+}
+
+export interface CritterData {
+  fishes: Fish[];
+  insects: Insect[];
+  seaCreatures: SeaCreature[];
+}
+
+export type CatchableResult = CritterData;
@@ -0,0 +1,112 @@
+import { Fish, Insect, SeaCreature } from "../../types";
+import { getSchedules } from "../catchable";
+import { CritterData, Hemisphere } from "../catchable/types";
+import {
+  CaughtCritters,
+  CritterCategory,
+  CritterEntry,
+  ProgressReport,
+} from "./types";
+
+type Critter = Fish | Insect | SeaCreature;
+
+function monthlyAvailability(critter: Critter, hemisphere: Hemisphere) {
+  return getSchedules(critter, hemisphere).map(
+    (schedule) => schedule.isAvailable
+  );
+}
+
+/**
+ * Counts the months after `monthIndex` (0-11) until the critter shows up
+ * again, or undefined if it never does.
+ */
+function monthsUntilReturn(months: boolean[], monthIndex: number) {
+  for (let offset = 1; offset <= 12; offset++) {
+    if (months[(monthIndex + offset) % 12]) {
+      return offset;
+    }
+  }
+}
+
+function toEntry(critter: Critter, category: CritterCategory): CritterEntry {
+  return {
+    category,
+    internalId: critter.internalId,
+    name: critter.name,
+    sellAmount: critter.sellAmount,
+  };
+}
+
+/**
+ * Builds a Critterpedia report for a player: which critters are still
+ * missing, which of those leave at the end of `month` and which arrive next
+ * month.
+ */
+export function buildProgressReport(
+  data: CritterData,
+  caught: CaughtCritters,
+  hemisphere: Hemisphere,
+  month: number
+): ProgressReport {
+  if (!Number.isInteger(month) || month < 1 || month > 12) {
+    throw new Error(`Month must be between 1 and 12, got ${month}`);
+  }
+
+  const monthIndex = month - 1;
+  const nextMonthIndex = month % 12;
+  const categories: Array<[CritterCategory, Critter[], Set<string>]> = [
+    ["fish", data.fishes, caught.fishes],
+    ["insect", data.insects, caught.insects],
+    ["seaCreature", data.seaCreatures, caught.seaCreatures],
+  ];
+
+  const report: ProgressReport = {
+    hemisphere,
+    month,
+    progress: {
+      fish: { caught: 0, total: 0 },
+      insect: { caught: 0, total: 0 },
+      seaCreature: { caught: 0, total: 0 },
+    },
+    missing: [],
+    leaving: [],
+    arriving: [],
+  };
+
+  for (const [category, critters, caughtIds] of categories) {
+    for (const critter of critters) {
+      report.progress[category].total++;
+      if (caughtIds.has(critter.internalId)) {
+        report.progress[category].caught++;
+        continue;
+      }
+
+      const entry = toEntry(critter, category);
+      report.missing.push(entry);
+
+      const months = monthlyAvailability(critter, hemisphere);
+      if (months[monthIndex] && !months[nextMonthIndex]) {
+        report.leaving.push({
+          ...entry,
+          monthsUntilReturn: monthsUntilReturn(months, monthIndex),
+        });
+      } else if (!months[monthIndex] && months[nextMonthIndex]) {
+        report.arriving.push(entry);
+      }
+    }
+  }
+
+  // Critters that are gone the longest are the most urgent to catch.
+  report.leaving.sort(
+    (a, b) => (b.monthsUntilReturn ?? 0) - (a.monthsUntilReturn ?? 0)
+  );
+
+  return report;
+}
+
+export async function writeProgressReport(
+  report: ProgressReport,
+  path = `data/output/critterpedia/progress_${report.hemisphere}_${report.month}.json`
+) {
+  await Bun.write(path, JSON.stringify({ report }));
+}
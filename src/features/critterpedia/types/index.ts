@@ -0,0 +1,35 @@
+import { Hemisphere } from "../../catchable/types";
+
+export type CritterCategory = "fish" | "insect" | "seaCreature";
+
+export interface CaughtCritters {
+  fishes: Set<string>;
+  insects: Set<string>;
+  seaCreatures: Set<string>;
+}
+
+export interface CritterEntry {
+  category: CritterCategory;
+  internalId: string;
+  name: string;
+  sellAmount: number;
+  /** Months after the current one until the critter is available again. */
+  monthsUntilReturn?: number;
+}
+
+export interface CategoryProgress {
+  caught: number;
+  total: number;
+}
+
+export interface ProgressReport {
+  hemisphere: Hemisphere;
+  /** 1-12 */
+  month: number;
+  progress: Record<CritterCategory, CategoryProgress>;
+  missing: CritterEntry[];
+  /** Missing critters available this month but not next month. */
+  leaving: CritterEntry[];
+  /** Missing critters not available this month that arrive next month. */
+  arriving: CritterEntry[];
+}
@@ -0,0 +1,19 @@
+import { KKMood, Music } from "../../types";
+
+export async function loadSongs(directory = "data/output"): Promise<Music[]> {
+  const { records } = await Bun.file(`${directory}/music.json`).json();
+  return records;
+}
+
+/**
+ * Returns the songs K.K. may play when a player picks `mood` at a concert.
+ * Secret songs are never picked at random, so they are not included.
+ */
+export function findSongsByMood(songs: Music[], mood: KKMood): Music[] {
+  return songs.filter((song) => song.mood === mood && !song.isSecret);
+}
+
+/** Songs that K.K. only plays when requested by name. */
+export function findSecretSongs(songs: Music[]): Music[] {
+  return songs.filter((song) => song.isSecret);
+}
@@ -0,0 +1,27 @@
+import { FossilGroup } from "../../types";
+import { IncompleteFossilGroup } from "./types";
+
+export async function loadFossilGroups(
+  directory = "data/output"
+): Promise<FossilGroup[]> {
+  const { groups } = await Bun.file(`${directory}/fossils.json`).json();
+  return groups;
+}
+
+/**
+ * Returns every fossil group that still has parts missing from the museum,
+ * given the `internalId`s that have already been donated.
+ */
+export function findIncompleteGroups(
+  groups: FossilGroup[],
+  donated: Set<string>
+): IncompleteFossilGroup[] {
+  return groups
+    .map((group) => ({
+      name: group.name,
+      museumRoom: group.museumRoom,
+      donatedParts: group.parts.filter((part) => donated.has(part.internalId)),
+      missingParts: group.parts.filter((part) => !donated.has(part.internalId)),
+    }))
+    .filter((group) => group.missingParts.length > 0);
+}
@@ -0,0 +1,8 @@
+import { FossilPart } from "../../../types";
+
+export interface IncompleteFossilGroup {
+  name: string;
+  museumRoom: string;
+  donatedParts: FossilPart[];
+  missingParts: FossilPart[];
+}
@@ -0,0 +1,236 @@
+import {
+  Posting,
+  SearchableData,
+  SearchableRecord,
+  SearchCategory,
+  SearchDocument,
+  SearchField,
+  SearchIndex,
+  SearchMatch,
+  SearchOptions,
+  SearchResult,
+} from "./types";
+
+const INDEX_FILE = "search-index.json";
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 3,
+  catchPhrase: 1.5,
+  where: 1,
+  sourceNotes: 1,
+  description: 0.5,
+};
+const SEARCH_FIELDS = Object.keys(FIELD_WEIGHTS) as SearchField[];
+
+/**
+ * Splits text into lowercase words without accents. Dots and apostrophes are
+ * dropped rather than split on, so "K.K." is one word ("kk") while "T. Rex"
+ * is two ("t", "rex").
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[.'’]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter((term) => term !== "");
+}
+
+function compact(text: string) {
+  return tokenize(text).join("");
+}
+
+/**
+ * Builds the search index over the processed datasets. Besides its words,
+ * each name is also indexed as one compacted word, so "trex" and "alohakk"
+ * find "T. rex skull" and "Aloha K.K.".
+ */
+export function buildSearchIndex(data: SearchableData): SearchIndex {
+  const categories: Array<[SearchCategory, Array<SearchableRecord>]> = [
+    ["fish", data.fishes],
+    ["insect", data.insects],
+    ["seaCreature", data.seaCreatures],
+    ["fossil", data.fossils],
+    ["music", data.music],
+  ];
+  const documents: SearchDocument[] = [];
+  const terms: Record<string, Posting[]> = {};
+
+  const seen = new Set<string>();
+  const addTerm = (term: string, posting: Posting) => {
+    const key = `${term} ${posting.document} ${posting.field}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      (terms[term] ??= []).push(posting);
+    }
+  };
+
+  for (const [category, records] of categories) {
+    for (const record of records) {
+      const document = documents.length;
+      documents.push({
+        category,
+        internalId: record.internalId,
+        name: record.name,
+        compactName: compact(record.name),
+      });
+
+      // Not every dataset has every field.
+      const fields: Partial<Record<SearchField, unknown>> = record;
+      for (const field of SEARCH_FIELDS) {
+        const value = fields[field];
+        if (typeof value !== "string") {
+          continue;
+        }
+        for (const term of tokenize(value)) {
+          addTerm(term, { document, field });
+        }
+      }
+      addTerm(documents[document].compactName, { document, field: "name" });
+    }
+  }
+
+  return { documents, terms };
+}
+
+/** Optimal string alignment distance, giving up once it exceeds `max`. */
+function editDistance(a: string, b: string, max: number) {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], previous2[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+    previous2 = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * How well an indexed word matches a query word, from 1 for an exact match
+ * down to 0 for no match. Typos are only considered for query words that
+ * aren't in the index, and longer words tolerate more of them.
+ */
+function termScore(queryTerm: string, term: string, allowTypos: boolean) {
+  if (queryTerm === term) {
+    return 1;
+  }
+  if (queryTerm.length >= 3 && term.startsWith(queryTerm)) {
+    return 0.5;
+  }
+  const maxEdits = queryTerm.length >= 8 ? 2 : queryTerm.length >= 4 ? 1 : 0;
+  if (!allowTypos || maxEdits === 0) {
+    return 0;
+  }
+  const distance = editDistance(queryTerm, term, maxEdits);
+  return distance <= maxEdits ? 0.4 / distance : 0;
+}
+
+/**
+ * Searches every dataset for `query`. All words of the query have to match,
+ * allowing for typos and unfinished words; results are ranked by how well
+ * and in which fields they matched, with name matches ranked highest.
+ */
+export function search(
+  index: SearchIndex,
+  query: string,
+  options: SearchOptions = {}
+): SearchResult[] {
+  const { limit = 20, categories } = options;
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0) {
+    return [];
+  }
+
+  // Best score and match per document, for each query word. Words matching
+  // fewer documents count for more, so "to" in "hard to say" barely matters.
+  const perTerm = queryTerms.map((queryTerm) => {
+    const allowTypos = !(queryTerm in index.terms);
+    const best = new Map<number, { score: number; match: SearchMatch }>();
+    for (const [term, postings] of Object.entries(index.terms)) {
+      const score = termScore(queryTerm, term, allowTypos);
+      if (score === 0) {
+        continue;
+      }
+      for (const { document, field } of postings) {
+        const weighted = score * FIELD_WEIGHTS[field];
+        if (weighted > (best.get(document)?.score ?? 0)) {
+          best.set(document, {
+            score: weighted,
+            match: { field, queryTerm, term },
+          });
+        }
+      }
+    }
+
+    const rarity = Math.log(1 + index.documents.length / best.size);
+    for (const match of best.values()) {
+      match.score *= rarity;
+    }
+    return best;
+  });
+
+  const compactQuery = queryTerms.join("");
+  const results: SearchResult[] = [];
+  for (const document of perTerm[0].keys()) {
+    const matches = perTerm.map((best) => best.get(document));
+    if (matches.some((match) => match === undefined)) {
+      continue;
+    }
+    const { category, internalId, name, compactName } =
+      index.documents[document];
+    if (categories && !categories.includes(category)) {
+      continue;
+    }
+
+    let score = matches.reduce((acc, match) => acc + match!.score, 0);
+    if (compactName === compactQuery) {
+      score += 10;
+    } else if (compactName.startsWith(compactQuery)) {
+      score += 3;
+    }
+    results.push({
+      category,
+      internalId,
+      name,
+      score,
+      matches: matches.map((match) => match!.match),
+    });
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
+
+export async function writeSearchIndex(
+  index: SearchIndex,
+  directory = "data/output"
+) {
+  await Bun.write(`${directory}/${INDEX_FILE}`, JSON.stringify(index));
+}
+
+export async function loadSearchIndex(
+  directory = "data/output"
+): Promise<SearchIndex> {
+  return Bun.file(`${directory}/${INDEX_FILE}`).json();
+}
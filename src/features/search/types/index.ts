@@ -0,0 +1,69 @@
+import { Fish, Fossil, Insect, Music, SeaCreature } from "../../../types";
+
+export type SearchCategory =
+  | "fish"
+  | "insect"
+  | "seaCreature"
+  | "fossil"
+  | "music";
+
+export type SearchField =
+  | "name"
+  | "description"
+  | "catchPhrase"
+  | "where"
+  | "sourceNotes";
+
+export type SearchableRecord = Fish | Insect | SeaCreature | Fossil | Music;
+
+export interface SearchableData {
+  fishes: Fish[];
+  insects: Insect[];
+  seaCreatures: SeaCreature[];
+  fossils: Fossil[];
+  music: Music[];
+}
+
+export interface SearchDocument {
+  category: SearchCategory;
+  internalId: string;
+  name: string;
+  /** `name` with everything but letters and digits removed, e.g. "trex". */
+  compactName: string;
+}
+
+/** A term occurring in `field` of `documents[document]`. */
+export interface Posting {
+  document: number;
+  field: SearchField;
+}
+
+/**
+ * Inverted index over every searchable field, saved as JSON so clients can
+ * load it without rebuilding.
+ */
+export interface SearchIndex {
+  documents: SearchDocument[];
+  terms: Record<string, Posting[]>;
+}
+
+export interface SearchMatch {
+  field: SearchField;
+  /** The query word as typed. */
+  queryTerm: string;
+  /** The indexed word it matched, which differs for typos and prefixes. */
+  term: string;
+}
+
+export interface SearchResult {
+  category: SearchCategory;
+  internalId: string;
+  name: string;
+  score: number;
+  matches: SearchMatch[];
+}
+
+export interface SearchOptions {
+  limit?: number;
+  categories?: SearchCategory[];
+}
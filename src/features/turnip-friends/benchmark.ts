@@ -0,0 +1,58 @@
+import { Predictor } from "./predictionEngine";
+import { PredictorInput } from "./types";
+
+// Times Predictor.analyzePossibilities on a few typical queries. Each query
+// is run a few times first so the timings don't include JIT warm up.
+const RUNS = parseInt(process.argv[2] ?? "50", 10);
+const WARM_UP_RUNS = 10;
+
+const QUERIES: Array<{ name: string; input: PredictorInput }> = [
+  { name: "unknown buy price, Monday AM", input: { monday: { am: 90 } } },
+  {
+    name: "unknown buy price, Monday",
+    input: { monday: { am: 88, pm: 84 } },
+  },
+  { name: "buy price only", input: { buyPrice: 100 } },
+  {
+    name: "buy price, Monday",
+    input: { buyPrice: 97, monday: { am: 85, pm: 80 } },
+  },
+  {
+    name: "buy price, Monday - Wednesday",
+    input: {
+      buyPrice: 104,
+      monday: { am: 92, pm: 88 },
+      tuesday: { am: 84, pm: 80 },
+      wednesday: { am: 76, pm: 72 },
+    },
+  },
+  { name: "first buy", input: { buyPrice: 95, firstBuy: true } },
+  {
+    name: "needs fudge factor",
+    input: { buyPrice: 100, monday: { am: 88, pm: 80 } },
+  },
+];
+
+function median(values: Array<number>) {
+  const sorted = values.slice().sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+const results = QUERIES.map(({ name, input }) => {
+  for (let i = 0; i < WARM_UP_RUNS; i++) {
+    new Predictor(input).analyzePossibilities();
+  }
+  const timings = [];
+  for (let i = 0; i < RUNS; i++) {
+    const start = performance.now();
+    new Predictor(input).analyzePossibilities();
+    timings.push(performance.now() - start);
+  }
+  return {
+    query: name,
+    "median (ms)": median(timings).toFixed(2),
+    "max (ms)": Math.max(...timings).toFixed(2),
+  };
+});
+
+console.table(results);
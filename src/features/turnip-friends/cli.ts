@@ -0,0 +1,220 @@
+import { parse } from "csv-parse/sync";
+import { Predictor } from "./predictionEngine";
+import { fromPriceArray, HALF_DAYS, WEEKDAYS } from "./prices";
+import { Pattern, PredictorInput } from "./types";
+
+const USAGE = `Usage: bun run predict_turnips [options] [buy price] [Mon AM] [Mon PM] ... [Sat PM]
+
+Prices that haven't been checked yet can be left out or given as "-".
+
+Options:
+  --file <path>              Read prices from a JSON or CSV file
+  --first-buy                First week buying turnips on this island
+  --previous-pattern <name>  Last week's pattern, by name or number (0-3)
+  --json                     Print the prediction as JSON
+  --help                     Show this message`;
+
+// CSV files have a header row with these columns, followed by one row of prices.
+const CSV_COLUMNS = [
+  "Buy Price",
+  ...WEEKDAYS.flatMap((day) =>
+    HALF_DAYS.map(
+      (period) => `${day.charAt(0).toUpperCase()}${day.slice(1, 3)} ${period}`
+    )
+  ),
+];
+
+function parsePrice(value: string): number {
+  if (value === "" || value === "-") {
+    return NaN;
+  }
+  const price = Number(value);
+  if (isNaN(price)) {
+    throw new Error(`Invalid price "${value}"`);
+  }
+  return price;
+}
+
+function parsePattern(value: string): Pattern {
+  const pattern = /^\d$/.test(value)
+    ? parseInt(value, 10)
+    : Pattern[value.toUpperCase().replace(/-/g, "_") as keyof typeof Pattern];
+  if (pattern === undefined || Pattern[pattern] === undefined) {
+    const names = [0, 1, 2, 3].map((p) => Pattern[p]).join(", ");
+    throw new Error(`Unknown pattern "${value}", expected one of ${names}`);
+  }
+  return pattern;
+}
+
+/** Engine price array from a buy price followed by up to 12 sell prices. */
+function toPrices(values: Array<string>): Array<number> {
+  if (values.length > CSV_COLUMNS.length) {
+    throw new Error(
+      `Expected at most ${CSV_COLUMNS.length} prices, got ${values.length}`
+    );
+  }
+  const prices = values.map(parsePrice);
+  while (prices.length < CSV_COLUMNS.length) {
+    prices.push(NaN);
+  }
+  return [prices[0], ...prices];
+}
+
+async function readInput(path: string): Promise<PredictorInput> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) {
+    throw new Error(`File not found: ${path}`);
+  }
+  const contents = await file.text();
+
+  if (path.endsWith(".json")) {
+    return JSON.parse(contents);
+  }
+  if (path.endsWith(".csv")) {
+    const [row]: Array<Record<string, string>> = parse(contents, {
+      columns: true,
+      skip_empty_lines: true,
+      trim: true,
+    });
+    if (!row) {
+      throw new Error(`${path} has no prices`);
+    }
+    const missing = CSV_COLUMNS.filter((column) => !(column in row));
+    if (missing.length > 0) {
+      throw new Error(`${path} is missing columns: ${missing.join(", ")}`);
+    }
+    return fromPriceArray(toPrices(CSV_COLUMNS.map((column) => row[column])));
+  }
+  throw new Error(`Unsupported file type: ${path}, expected .json or .csv`);
+}
+
+interface Options {
+  file?: string;
+  firstBuy: boolean;
+  previousPattern?: string;
+  json: boolean;
+  help: boolean;
+  prices: Array<string>;
+}
+
+function parseOptions(args: Array<string>): Options {
+  const options: Options = {
+    firstBuy: false,
+    json: false,
+    help: false,
+    prices: [],
+  };
+  const valueOf = (flag: string) => {
+    const value = args.shift();
+    if (value === undefined) {
+      throw new Error(`${flag} needs a value`);
+    }
+    return value;
+  };
+
+  while (args.length > 0) {
+    const arg = args.shift()!;
+    if (arg === "--file") {
+      options.file = valueOf(arg);
+    } else if (arg === "--first-buy") {
+      options.firstBuy = true;
+    } else if (arg === "--previous-pattern") {
+      options.previousPattern = valueOf(arg);
+    } else if (arg === "--json") {
+      options.json = true;
+    } else if (arg === "--help") {
+      options.help = true;
+    } else if (arg.startsWith("--")) {
+      throw new Error(`Unknown option ${arg}\n\n${USAGE}`);
+    } else {
+      options.prices.push(arg);
+    }
+  }
+  return options;
+}
+
+async function main() {
+  const options = parseOptions(Bun.argv.slice(2));
+
+  if (options.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (options.file && options.prices.length > 0) {
+    throw new Error("Give prices either as arguments or with --file, not both");
+  }
+  if (!options.file && options.prices.length === 0) {
+    throw new Error(`No prices given\n\n${USAGE}`);
+  }
+
+  const input: PredictorInput = options.file
+    ? await readInput(options.file)
+    : fromPriceArray(toPrices(options.prices));
+  if (options.firstBuy) {
+    input.firstBuy = true;
+  }
+  if (options.previousPattern !== undefined) {
+    input.previousPattern = parsePattern(options.previousPattern);
+  }
+
+  // Both share one run of the engine.
+  const predictor = new Predictor(input);
+  const diagnostics = predictor.diagnose();
+  if (diagnostics.noMatch) {
+    throw new Error(
+      `These prices don't match any pattern, even ${diagnostics.fudgeFactor} bells out of range; check them for typos`
+    );
+  }
+  const [all] = predictor.analyzePossibilities();
+
+  if (options.json) {
+    console.log(
+      JSON.stringify(
+        {
+          fudgeFactor: diagnostics.fudgeFactor,
+          patterns: diagnostics.patterns,
+          weekGuaranteedMinimum: all.weekGuaranteedMinimum,
+          weekMax: all.weekMax,
+          prices: all.prices,
+        },
+        null,
+        2
+      )
+    );
+    return;
+  }
+
+  console.table(
+    diagnostics.patterns.map((pattern) => ({
+      pattern: pattern.patternName,
+      probability: `${(pattern.probability * 100).toFixed(1)}%`,
+    }))
+  );
+  console.table(
+    all.prices.map((price) => ({
+      day: price.day,
+      period: price.period,
+      observed:
+        input[price.day]?.[price.period === "AM" ? "am" : "pm"] !== undefined
+          ? "yes"
+          : "",
+      min: price.min,
+      max: price.max,
+    }))
+  );
+  console.log(
+    `Guaranteed minimum ${all.weekGuaranteedMinimum}, possible max ${all.weekMax}`
+  );
+  if (diagnostics.fudgeFactor > 0) {
+    console.log(
+      `Prices only matched with a fudge factor of ${diagnostics.fudgeFactor}; check for a typo`
+    );
+  }
+}
+
+try {
+  await main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
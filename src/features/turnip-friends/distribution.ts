@@ -0,0 +1,136 @@
+import { PriceDistribution } from "./types";
+import { clamp, floatSum } from "./utils";
+
+export function pointDistribution(price: number): PriceDistribution {
+  return { start: price, probabilities: [1] };
+}
+
+/**
+ * Cumulative distribution function of a rate drawn uniformly from [a, b].
+ */
+export function uniformCdf(a: number, b: number) {
+  return (x: number) =>
+    b === a ? (x >= a ? 1 : 0) : clamp((x - a) / (b - a), 0, 1);
+}
+
+/**
+ * Turns the CDF of a rate into the distribution of
+ *   intceil(rate * buy_price / rate_multiplier) + offset
+ * over [min_price, max_price].
+ */
+export function distributionFromRateCdf(
+  cdf: (rate: number) => number,
+  min_price: number,
+  max_price: number,
+  buy_price: number,
+  rate_multiplier: number,
+  offset = 0
+): PriceDistribution {
+  const probabilities = [];
+  for (let price = min_price; price <= max_price; price++) {
+    // intceil(v) == price - offset  <=>  price - offset - 1 < v <= price - offset
+    const low = ((price - offset - 1) * rate_multiplier) / buy_price;
+    const high = ((price - offset) * rate_multiplier) / buy_price;
+    const p = cdf(high) - cdf(low);
+    probabilities.push(p > 0 ? p : 0);
+  }
+
+  const total = floatSum(probabilities);
+  return {
+    start: min_price,
+    // A degenerate rate range has no density to spread; fall back to uniform.
+    probabilities: probabilities.map((p) =>
+      total > 0 ? p / total : 1 / probabilities.length
+    ),
+  };
+}
+
+/**
+ * Combines several distributions, each weighted by the probability of the
+ * possibility it belongs to.
+ */
+export function mixDistributions(
+  weighted: Array<{ distribution: PriceDistribution; weight: number }>
+): PriceDistribution {
+  const start = Math.min(...weighted.map((it) => it.distribution.start));
+  const end = Math.max(
+    ...weighted.map(
+      (it) => it.distribution.start + it.distribution.probabilities.length
+    )
+  );
+  const probabilities = new Array<number>(end - start).fill(0);
+  for (const { distribution, weight } of weighted) {
+    distribution.probabilities.forEach((p, i) => {
+      probabilities[distribution.start - start + i] += p * weight;
+    });
+  }
+
+  const total = floatSum(probabilities);
+  return {
+    start,
+    probabilities: probabilities.map((p) => p / total),
+  };
+}
+
+/**
+ * Distribution of the highest of several prices, taken as independent of each
+ * other.
+ */
+export function maxDistribution(
+  distributions: Array<PriceDistribution>
+): PriceDistribution {
+  const start = Math.max(...distributions.map((it) => it.start));
+  const end = Math.max(
+    ...distributions.map((it) => it.start + it.probabilities.length)
+  );
+
+  // P(max <= price) is the product of P(price_i <= price).
+  const cumulative = new Array<number>(end - start).fill(1);
+  for (const { start: from, probabilities } of distributions) {
+    let sum = 0;
+    probabilities.forEach((p, i) => {
+      sum += p;
+      if (from + i >= start) {
+        cumulative[from + i - start] *= Math.min(sum, 1);
+      }
+    });
+  }
+
+  return {
+    start,
+    probabilities: cumulative.map((p, i) =>
+      Math.max(p - (i > 0 ? cumulative[i - 1] : 0), 0)
+    ),
+  };
+}
+
+export function expectedValue(distribution: PriceDistribution) {
+  return floatSum(
+    distribution.probabilities.map((p, i) => p * (distribution.start + i))
+  );
+}
+
+/**
+ * Smallest price whose cumulative probability reaches `q` (0-1).
+ */
+export function quantile(distribution: PriceDistribution, q: number) {
+  let cumulative = 0;
+  for (let i = 0; i < distribution.probabilities.length; i++) {
+    cumulative += distribution.probabilities[i];
+    if (cumulative >= q - 1e-9) {
+      return distribution.start + i;
+    }
+  }
+  return distribution.start + distribution.probabilities.length - 1;
+}
+
+/**
+ * Probability that the price is at least `threshold`.
+ */
+export function probabilityAtLeast(
+  distribution: PriceDistribution,
+  threshold: number
+) {
+  const from = Math.max(0, Math.ceil(threshold) - distribution.start);
+  return clamp(floatSum(distribution.probabilities.slice(from)), 0, 1);
+}
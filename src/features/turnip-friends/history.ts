@@ -0,0 +1,121 @@
+import {
+  Predictor,
+  STEADY_STATE_PROBABILITIES,
+  transitionFrom,
+} from "./predictionEngine";
+import {
+  IslandHistory,
+  Pattern,
+  PredictorInput,
+  TurnipPrices,
+  TurnipWeek,
+} from "./types";
+
+const HISTORY_DIRECTORY = "data/output/turnip-history";
+
+function normalize(probabilities: Array<number>) {
+  const total = probabilities.reduce((acc, p) => acc + p, 0);
+  return probabilities.map((p) => p / total);
+}
+
+function weeksBetween(earlier: string, later: string) {
+  const days = (Date.parse(later) - Date.parse(earlier)) / 86400000;
+  // Unparseable dates are treated as consecutive weeks.
+  return Number.isNaN(days) ? 1 : Math.max(1, Math.round(days / 7));
+}
+
+/**
+ * Infers the probability of each pattern for the most recent week in
+ * `weeks`, chaining the weeks together through PROBABILITY_MATRIX. Weeks with
+ * partial data narrow the distribution down as far as their prices allow.
+ */
+export function inferPatternProbabilities(
+  weeks: Array<TurnipWeek>
+): Array<number> {
+  let belief = STEADY_STATE_PROBABILITIES;
+
+  weeks.forEach((week, i) => {
+    // Turnips bought for the first time on an island always follow this pattern.
+    if (week.firstBuy) {
+      belief = [0, 0, 0, 0];
+      belief[Pattern.SMALL_SPIKE] = 1;
+      return;
+    }
+
+    let prior = belief;
+    for (
+      let gap = i === 0 ? 0 : weeksBetween(weeks[i - 1].weekOf, week.weekOf);
+      gap > 0;
+      gap--
+    ) {
+      prior = transitionFrom(prior);
+    }
+    const likelihoods = new Predictor(week).patternLikelihoods();
+    const posterior = prior.map((p, pattern) => p * likelihoods[pattern]);
+
+    // Prices that no pattern can explain carry no information.
+    belief = posterior.some((p) => p > 0) ? normalize(posterior) : prior;
+  });
+
+  return belief;
+}
+
+/**
+ * Builds the Predictor input for this week, using the island's history to
+ * weigh last week's pattern. `weekOf` is the ISO date of this week's Sunday;
+ * when given, weeks missing between the last recorded week and this one are
+ * stepped through too. Without it the history is assumed to end last week.
+ */
+export function withHistory(
+  history: IslandHistory,
+  prices: TurnipPrices,
+  weekOf?: string
+): PredictorInput {
+  if (history.weeks.length === 0) {
+    return prices;
+  }
+
+  let probabilities = inferPatternProbabilities(history.weeks);
+  if (weekOf !== undefined) {
+    const last = history.weeks[history.weeks.length - 1];
+    // The Predictor makes the transition from last week to this one itself.
+    for (let gap = weeksBetween(last.weekOf, weekOf) - 1; gap > 0; gap--) {
+      probabilities = transitionFrom(probabilities);
+    }
+  }
+
+  return { ...prices, previousPatternProbabilities: probabilities };
+}
+
+export function addWeek(
+  history: IslandHistory,
+  week: TurnipWeek
+): IslandHistory {
+  const weeks = history.weeks
+    .filter((it) => it.weekOf !== week.weekOf)
+    .concat(week)
+    .sort((a, b) => a.weekOf.localeCompare(b.weekOf));
+
+  return { ...history, weeks };
+}
+
+export async function loadIslandHistory(
+  island: string,
+  directory = HISTORY_DIRECTORY
+): Promise<IslandHistory> {
+  const file = Bun.file(`${directory}/${island}.json`);
+  if (!(await file.exists())) {
+    return { island, weeks: [] };
+  }
+  return file.json();
+}
+
+export async function saveIslandHistory(
+  history: IslandHistory,
+  directory = HISTORY_DIRECTORY
+) {
+  await Bun.write(
+    `${directory}/${history.island}.json`,
+    JSON.stringify(history)
+  );
+}
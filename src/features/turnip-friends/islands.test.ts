@@ -0,0 +1,63 @@
+import { describe, expect, test } from "bun:test";
+import { islandOutlook, rankIslands } from "./islands";
+import { Predictor } from "./predictionEngine";
+import { fromPriceArray } from "./prices";
+
+// Buy price, then Mon AM - Sat PM.
+const decreasing = fromPriceArray([
+  100, 100, 88, 84, 80, 76, 72, 68, 64, 60, 56, 52, 48, 44,
+]);
+const undecided = { buyPrice: 100, monday: { am: 90, pm: 86 } };
+
+describe("islandOutlook", () => {
+  test("expects the highest price left when every price is known", () => {
+    const outlook = islandOutlook(
+      { island: "A", prices: decreasing },
+      "tuesday",
+      "AM"
+    );
+    expect(outlook.patternName).toBe("DECREASING");
+    expect(outlook.expectedMax).toBeCloseTo(80, 9);
+  });
+
+  test("counts spikes that could peak on any of several half-days", () => {
+    const outlook = islandOutlook(
+      { island: "A", prices: undecided },
+      "tuesday",
+      "AM"
+    );
+    // A spike averaged over the half-days it might peak on would be far lower.
+    const highestExpected = Math.max(
+      ...new Predictor(undecided)
+        .analyzeDistributions()
+        .map((it) => it.expected)
+    );
+    expect(outlook.expectedMax).toBeGreaterThan(highestExpected + 50);
+  });
+});
+
+describe("rankIslands", () => {
+  test("lists islands that can't be predicted separately", () => {
+    const ranking = rankIslands(
+      [
+        { island: "A", prices: decreasing },
+        { island: "B", prices: { buyPrice: 100, monday: { am: 600 } } },
+        { island: "C", prices: undecided },
+      ],
+      "tuesday",
+      "AM"
+    );
+
+    expect(ranking.byExpectedMax.map((it) => it.island)).toEqual(["C", "A"]);
+    expect(ranking.bySpikeProbability.map((it) => it.island)).toEqual([
+      "C",
+      "A",
+    ]);
+    expect(ranking.failed).toEqual([
+      {
+        island: "B",
+        error: "B: prices don't match any pattern, check them for typos",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,137 @@
+import { withHistory } from "./history";
+import { Predictor } from "./predictionEngine";
+import { halfDayAt, priceIndex } from "./prices";
+import {
+  HalfDay,
+  IslandFailure,
+  IslandOutlook,
+  IslandPrices,
+  IslandRanking,
+  Pattern,
+  PredicationResult,
+  Weekday,
+} from "./types";
+
+const SPIKE_PATTERNS = [Pattern.LARGE_SPIKE, Pattern.SMALL_SPIKE];
+
+/**
+ * Engine index of the half-day a possibility peaks on: the one with the
+ * highest possible price.
+ */
+function peakIndex(possibility: PredicationResult) {
+  let peak = 0;
+  possibility.prices.forEach((price, i) => {
+    if (price.max > possibility.prices[peak].max) {
+      peak = i;
+    }
+  });
+  return peak + 2;
+}
+
+/**
+ * Predicts the rest of the week for a single island, as seen from the given
+ * half-day. Throws if the island's prices are invalid or match no pattern.
+ */
+export function islandOutlook(
+  report: IslandPrices,
+  day: Weekday,
+  period: HalfDay
+): IslandOutlook {
+  const { island, prices, firstBuy, history = [], weekOf } = report;
+  let possibilities: Array<PredicationResult>;
+  let expectedMax: number;
+  try {
+    const input = withHistory({ island, weeks: history }, prices, weekOf);
+    const predictor = new Predictor({ ...input, firstBuy });
+    // Distributions first, so both calls share one run of the engine.
+    expectedMax = predictor.expectedMaximum(day, period);
+    possibilities = predictor.analyzePossibilities().slice(1);
+  } catch (error) {
+    throw new Error(`${island}: ${(error as Error).message}`);
+  }
+  if (possibilities.length === 0) {
+    throw new Error(
+      `${island}: prices don't match any pattern, check them for typos`
+    );
+  }
+
+  const current = priceIndex(day, period);
+  const endOfTomorrow = Math.min(priceIndex(day, "PM") + 2, 13);
+
+  const patternProbabilities = [0, 0, 0, 0];
+  let spikeProbability = 0;
+  let earliestPeak = Infinity;
+  let latestPeak = -Infinity;
+
+  for (const poss of possibilities) {
+    patternProbabilities[poss.patternNumber] += poss.probability;
+
+    if (!SPIKE_PATTERNS.includes(poss.patternNumber)) {
+      continue;
+    }
+    const peak = peakIndex(poss);
+    if (peak < current) {
+      continue;
+    }
+    if (peak <= endOfTomorrow) {
+      spikeProbability += poss.probability;
+    }
+    earliestPeak = Math.min(earliestPeak, peak);
+    latestPeak = Math.max(latestPeak, peak);
+  }
+
+  const pattern = patternProbabilities.indexOf(
+    Math.max(...patternProbabilities)
+  );
+
+  return {
+    island,
+    patternName: Pattern[pattern],
+    patternProbability: patternProbabilities[pattern],
+    spikeProbability,
+    expectedMax,
+    peakWindow:
+      latestPeak >= 0
+        ? { start: halfDayAt(earliestPeak), end: halfDayAt(latestPeak) }
+        : undefined,
+  };
+}
+
+/**
+ * Ranks the islands in a group by the chance of a spike today or tomorrow,
+ * and by the highest price they can be expected to reach this week. Islands
+ * whose prices can't be predicted are listed separately, so one typo doesn't
+ * hold up the rest of the group.
+ */
+export function rankIslands(
+  reports: Array<IslandPrices>,
+  day: Weekday,
+  period: HalfDay
+): IslandRanking {
+  const outlooks: Array<IslandOutlook> = [];
+  const failed: Array<IslandFailure> = [];
+  for (const report of reports) {
+    try {
+      outlooks.push(islandOutlook(report, day, period));
+    } catch (error) {
+      failed.push({
+        island: report.island,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  return {
+    bySpikeProbability: outlooks
+      .slice()
+      .sort(
+        (a, b) =>
+          b.spikeProbability - a.spikeProbability ||
+          b.expectedMax - a.expectedMax
+      ),
+    byExpectedMax: outlooks
+      .slice()
+      .sort((a, b) => b.expectedMax - a.expectedMax),
+    failed,
+  };
+}
@@ -5,6 +5,26 @@ import {
   rangeLength,
 } from "./utils";
 
+// Uniform distributions only depend on the pattern's rate constants, so the
+// same few are built over and over for every buy price and phase length.
+const uniformCache = new Map<string, Array<number>>();
+
+function uniformProbabilities(range: Array<number>) {
+  const key = range.join(",");
+  let prob = uniformCache.get(key);
+  if (!prob) {
+    const start = Math.floor(range[0]);
+    const total_length = rangeLength(range);
+    prob = Array(Math.ceil(range[1]) - start);
+    for (let i = 0; i < prob.length; i++) {
+      prob[i] =
+        rangeIntersectLength([start + i, start + i + 1], range) / total_length;
+    }
+    uniformCache.set(key, prob);
+  }
+  return prob;
+}
+
 /*
  * Probability Density Function of rates.
  * Since the PDF is continuous*, we approximate it by a discrete probability function:
@@ -20,6 +40,12 @@ export class PDF {
   private valueStart: number = 0;
   private valueEnd: number = 0;
   private prob: Array<number> = [];
+  // Building the probabilities is the most expensive part of the engine, and
+  // most PDFs only ever have their bounds looked at. So the initial uniform
+  // distribution and any decays are only applied once the probabilities are
+  // actually needed.
+  private uniformRange?: Array<number>;
+  private pendingDecays: Array<[number, number]> = [];
 
   /**
    * Initialize a PDF in range [a, b], a and b can be non-integer.
@@ -33,15 +59,39 @@ export class PDF {
     // We need to ensure that [a, b] is fully contained in [value_start, value_end].
     this.valueStart = Math.floor(a);
     this.valueEnd = Math.ceil(b);
-    const range = [a, b];
-    const total_length = rangeLength(range);
-    this.prob = Array(this.valueEnd - this.valueStart);
     if (uniform) {
-      for (let i = 0; i < this.prob.length; i++) {
-        this.prob[i] =
-          rangeIntersectLength(this.range_of(i), range) / total_length;
-      }
+      this.uniformRange = [a, b];
+    } else {
+      this.prob = Array(this.valueEnd - this.valueStart);
+    }
+  }
+
+  /**
+   * Builds the probabilities that were deferred by the constructor and decay.
+   */
+  private materialize() {
+    if (this.uniformRange) {
+      this.prob = uniformProbabilities(this.uniformRange).slice();
+      this.uniformRange = undefined;
+    }
+    for (const [rate_decay_min, rate_decay_max] of this.pendingDecays) {
+      this.convolve(rate_decay_min, rate_decay_max);
+    }
+    this.pendingDecays = [];
+  }
+
+  /**
+   * A copy of this.prob[start_idx, end_idx), avoiding building the whole
+   * array when it's still uniform.
+   */
+  private slice(start_idx: number, end_idx: number) {
+    if (this.uniformRange && this.pendingDecays.length === 0) {
+      const prob = uniformProbabilities(this.uniformRange);
+      this.uniformRange = undefined;
+      return prob.slice(start_idx, end_idx);
     }
+    this.materialize();
+    return this.prob.slice(start_idx, end_idx);
   }
 
   /**
@@ -64,6 +114,26 @@ export class PDF {
     return this.valueEnd;
   }
 
+  /**
+   * Builds the cumulative distribution function of this PDF.
+   * @returns {(x: number) => number} Probability that the value is <= x.
+   */
+  public cdf() {
+    this.materialize();
+    const prefix = prefixFloatSum(this.prob);
+    return (x: number) => {
+      if (x <= this.valueStart) {
+        return 0;
+      }
+      if (x >= this.valueEnd) {
+        return 1;
+      }
+      const idx = Math.floor(x - this.valueStart);
+      const partial = this.prob[idx] * (x - this.valueStart - idx);
+      return floatSum([prefix[idx][0], prefix[idx][1], partial]);
+    };
+  }
+
   /**
    * @returns {number} The sum of probabilities before normalisation.
    */
@@ -87,20 +157,23 @@ export class PDF {
       // Set this to invalid values
       this.valueStart = this.valueEnd = 0;
       this.prob = [];
+      this.uniformRange = undefined;
+      this.pendingDecays = [];
       return 0;
     }
     start = Math.floor(start);
     end = Math.ceil(end);
 
-    const start_idx = start - this.valueStart;
-    const end_idx = end - this.valueStart;
-    for (let i = start_idx; i < end_idx; i++) {
-      this.prob[i] *= rangeIntersectLength(this.range_of(i), range);
-    }
-
-    this.prob = this.prob.slice(start_idx, end_idx);
+    this.prob = this.slice(start - this.valueStart, end - this.valueStart);
     this.valueStart = start;
     this.valueEnd = end;
+    // Same as rangeIntersectLength(this.range_of(i), range), without the
+    // allocations; this is the engine's innermost loop.
+    for (let i = 0; i < this.prob.length; i++) {
+      const left = Math.max(start + i, range[0]);
+      const right = Math.min(start + i + 1, range[1]);
+      this.prob[i] *= right > left ? right - left : 0;
+    }
 
     // The probability that the value was in this range is equal to the total
     // sum of "un-normalised" values in the range.
@@ -119,6 +192,16 @@ export class PDF {
     // In case the arguments aren't integers, round them to the nearest integer.
     rate_decay_min = Math.round(rate_decay_min);
     rate_decay_max = Math.round(rate_decay_max);
+    this.pendingDecays.push([rate_decay_min, rate_decay_max]);
+    this.valueStart -= rate_decay_max;
+    this.valueEnd -= rate_decay_min;
+  }
+
+  /**
+   * Applies a decay to the probabilities. The bounds have already been moved
+   * by decay.
+   */
+  private convolve(rate_decay_min: number, rate_decay_max: number) {
     // The sum of this distribution with a uniform distribution.
     // Let's assume that both distributions start at 0 and X = this dist,
     // Y = uniform dist, and Z = X + Y.
@@ -177,8 +260,6 @@ export class PDF {
     }
 
     this.prob = newProb;
-    this.valueStart -= rate_decay_max;
-    this.valueEnd -= rate_decay_min;
     // No need to normalise, as it is guaranteed that the sum of this.prob is 1.
   }
 }
@@ -2,21 +2,52 @@
  * @see https://github.com/mikebryant/ac-nh-turnip-prices/blob/master/js/predictions.js
  */
 
+import {
+  distributionFromRateCdf,
+  expectedValue,
+  maxDistribution,
+  mixDistributions,
+  pointDistribution,
+  quantile,
+  uniformCdf,
+} from "./distribution";
 import { PDF } from "./pdf";
 import {
+  HALF_DAYS,
+  halfDayAt,
+  MAX_BUY_PRICE,
+  MIN_BUY_PRICE,
+  priceIndex,
+  toPredicationResult,
+  toPriceArray,
+  validatePrices,
+  WEEKDAYS,
+} from "./prices";
+import {
+  HalfDay,
+  HalfDayForecast,
   MinMax,
   NumberIndexedObject,
   Pattern,
+  PatternDiagnosis,
+  PatternRejection,
+  Possibility,
   PredicationResult,
+  PredictedRange,
+  PredictionDiagnostics,
+  PredictorInput,
+  RejectedPrice,
+  Weekday,
 } from "./types";
 import {
   clamp,
+  floatSum,
   rangeIntersect,
   rangeIntersectLength,
   rangeLength,
 } from "./utils";
 
-const PROBABILITY_MATRIX = {
+export const PROBABILITY_MATRIX = {
   [Pattern.FLUCTUATING]: {
     [Pattern.FLUCTUATING]: 0.2,
     [Pattern.LARGE_SPIKE]: 0.3,
@@ -42,25 +73,55 @@ const PROBABILITY_MATRIX = {
     [Pattern.SMALL_SPIKE]: 0.15,
   },
 };
+// Steady state probabilities of PROBABILITY_MATRIX, used when we don't know
+// what the previous pattern was.
+// See https://github.com/mikebryant/ac-nh-turnip-prices/issues/68
+// and https://github.com/mikebryant/ac-nh-turnip-prices/pull/90
+// for more information.
+export const STEADY_STATE_PROBABILITIES = [
+  4530 / 13082,
+  3236 / 13082,
+  1931 / 13082,
+  3385 / 13082,
+];
 const RATE_MULTIPLIER = 10000;
 
+/**
+ * Probability of each pattern this week, given a probability distribution
+ * over last week's pattern.
+ */
+export function transitionFrom(previous: Array<number>): Array<number> {
+  return [0, 1, 2, 3].map((next) =>
+    previous.reduce(
+      (acc, p, prev) =>
+        acc + p * PROBABILITY_MATRIX[prev as Pattern][next as Pattern],
+      0
+    )
+  );
+}
+
 export class Predictor {
   private fudgeFactor = 0;
   private prices: Array<number> = [];
   private firstBuy: boolean = false;
   private previousPattern?: Pattern;
+  private previousPatternProbabilities?: Array<number>;
+  private trackDistributions = false;
+  private rejections?: Array<RejectedPrice>;
+  // Result of the last compute_possibilities(), so that diagnose() and
+  // analyzePossibilities() on the same Predictor only run the engine once.
+  private computed?: { possibilities: Array<Possibility>; tracked: boolean };
+
+  constructor(input: PredictorInput) {
+    validatePrices(input);
 
-  constructor(
-    prices: Array<number>,
-    firstBuy: boolean,
-    previousPattern?: Pattern
-  ) {
     // The reverse-engineered code is not perfectly accurate, especially as it's not
     // 32-bit ARM floating point. So, be tolerant of slightly unexpected inputs
     this.fudgeFactor = 0;
-    this.prices = prices;
-    this.firstBuy = firstBuy;
-    this.previousPattern = previousPattern;
+    this.prices = toPriceArray(input);
+    this.firstBuy = input.firstBuy ?? false;
+    this.previousPattern = input.previousPattern;
+    this.previousPatternProbabilities = input.previousPatternProbabilities;
   }
 
   private intCeil(val: number) {
@@ -95,6 +156,73 @@ export class Predictor {
     return this.intCeil((rate * basePrice) / RATE_MULTIPLIER);
   }
 
+  /*
+   * Distribution of a predicted price, or undefined when distributions aren't
+   * being tracked. Given prices are known exactly.
+   */
+  private distribution_of(
+    given_price: number,
+    rate_cdf: () => (rate: number) => number,
+    min_pred: number,
+    max_pred: number,
+    buy_price: number,
+    offset = 0
+  ) {
+    if (!this.trackDistributions) {
+      return undefined;
+    }
+    if (!isNaN(given_price)) {
+      return pointDistribution(given_price);
+    }
+    return distributionFromRateCdf(
+      rate_cdf(),
+      min_pred,
+      max_pred,
+      buy_price,
+      RATE_MULTIPLIER,
+      offset
+    );
+  }
+
+  /*
+   * Records why a price didn't match when diagnosing, and returns the zero
+   * probability for the caller to return.
+   */
+  private reject(
+    index: number,
+    min_pred: number,
+    max_pred: number,
+    rate_min: number,
+    rate_max: number
+  ) {
+    this.rejections?.push({
+      index,
+      min: min_pred,
+      max: max_pred,
+      rateMin: rate_min,
+      rateMax: rate_max,
+    });
+    return 0;
+  }
+
+  /*
+   * CDF of Y = randfloat(rate_min, X) where X = randfloat(rate_range[0], rate_range[1]).
+   * See generate_peak_price for the derivation.
+   */
+  private peak_side_cdf(rate_range: Array<number>, rate_min: number) {
+    const F = (t: number, ZZ: number) => {
+      if (t <= 0) {
+        return 0;
+      }
+      return ZZ < t ? ZZ : t - t * (Math.log(t) - Math.log(ZZ));
+    };
+    const [A, B] = rate_range;
+    const C = rate_min;
+    const Z1 = A - C;
+    const Z2 = B - C;
+    return (t: number) => (F(t - C, Z2) - F(t - C, Z1)) / (Z2 - Z1);
+  }
+
   private *multiply_generator_probability(generator: any, probability: number) {
     for (const it of generator) {
       yield { ...it, probability: it.probability * probability };
@@ -115,7 +243,7 @@ export class Predictor {
    */
   private generate_individual_random_price(
     given_prices: Array<number>,
-    predicted_prices: Array<MinMax>,
+    predicted_prices: Array<PredictedRange>,
     start: number,
     length: number,
     rate_min: number,
@@ -137,7 +265,7 @@ export class Predictor {
           given_prices[i] > max_pred + this.fudgeFactor
         ) {
           // Given price is out of predicted range, so this is the wrong pattern
-          return 0;
+          return this.reject(i, min_pred, max_pred, rate_min, rate_max);
         }
         // TODO: How to deal with probability when there's fudge factor?
         // Clamp the value to be in range now so the probability won't be totally biased to fudged values.
@@ -155,6 +283,13 @@ export class Predictor {
       predicted_prices.push({
         min: min_pred,
         max: max_pred,
+        distribution: this.distribution_of(
+          given_prices[i],
+          () => uniformCdf(rate_min, rate_max),
+          min_pred,
+          max_pred,
+          buy_price
+        ),
       });
     }
     return prob;
@@ -175,7 +310,7 @@ export class Predictor {
    */
   private generate_decreasing_random_price(
     given_prices: Array<number>,
-    predicted_prices: Array<MinMax>,
+    predicted_prices: Array<PredictedRange>,
     start: number,
     length: number,
     start_rate_min: number,
@@ -193,15 +328,19 @@ export class Predictor {
     let prob = 1;
 
     for (let i = start; i < start + length; i++) {
-      let min_pred = this.get_price(rate_pdf.min_value(), buy_price);
-      let max_pred = this.get_price(rate_pdf.max_value(), buy_price);
+      // range_limit empties the PDF when it returns 0, so keep the bounds for
+      // reject().
+      const rate_min = rate_pdf.min_value();
+      const rate_max = rate_pdf.max_value();
+      let min_pred = this.get_price(rate_min, buy_price);
+      let max_pred = this.get_price(rate_max, buy_price);
       if (!isNaN(given_prices[i])) {
         if (
           given_prices[i] < min_pred - this.fudgeFactor ||
           given_prices[i] > max_pred + this.fudgeFactor
         ) {
           // Given price is out of predicted range, so this is the wrong pattern
-          return 0;
+          return this.reject(i, min_pred, max_pred, rate_min, rate_max);
         }
         // TODO: How to deal with probability when there's fudge factor?
         // Clamp the value to be in range now so the probability won't be totally biased to fudged values.
@@ -211,7 +350,7 @@ export class Predictor {
         );
         prob *= rate_pdf.range_limit(real_rate_range);
         if (prob == 0) {
-          return 0;
+          return this.reject(i, min_pred, max_pred, rate_min, rate_max);
         }
         min_pred = given_prices[i];
         max_pred = given_prices[i];
@@ -220,6 +359,13 @@ export class Predictor {
       predicted_prices.push({
         min: min_pred,
         max: max_pred,
+        distribution: this.distribution_of(
+          given_prices[i],
+          () => rate_pdf.cdf(),
+          min_pred,
+          max_pred,
+          buy_price
+        ),
       });
 
       rate_pdf.decay(rate_decay_min, rate_decay_max);
@@ -240,7 +386,7 @@ export class Predictor {
    */
   private generate_peak_price(
     given_prices: Array<number>,
-    predicted_prices: Array<MinMax>,
+    predicted_prices: Array<PredictedRange>,
     start: number,
     rate_min: number,
     rate_max: number
@@ -263,7 +409,7 @@ export class Predictor {
         middle_price > max_pred + this.fudgeFactor
       ) {
         // Given price is out of predicted range, so this is the wrong pattern
-        return 0;
+        return this.reject(start + 1, min_pred, max_pred, rate_min, rate_max);
       }
       // TODO: How to deal with probability when there's fudge factor?
       // Clamp the value to be in range now so the probability won't be totally biased to fudged values.
@@ -276,14 +422,12 @@ export class Predictor {
         rangeLength(rate_range);
 
       if (prob == 0) {
-        return 0;
+        return this.reject(start + 1, min_pred, max_pred, rate_min, rate_max);
       }
 
       rate_range = rangeIntersect(rate_range, real_rate_range) ?? [];
     }
 
-    const left_price = given_prices[start];
-    const right_price = given_prices[start + 2];
     // Prob(left_price | middle_price), Prob(right_price | middle_price)
     //
     // A = rate_range[0], B = rate_range[1], C = rate_min, X = rate, Y = randfloat(rate_min, rate)
@@ -298,7 +442,8 @@ export class Predictor {
     //                                 = t - t log(t/ZZ)
     // Prob(Z<=t) = (F(t, Z2) - F(t, Z1)) / (Z2 - Z1)
     // Prob(Y<=t) = Prob(Z>=t-C)
-    for (const price of [left_price, right_price]) {
+    for (const index of [start, start + 2]) {
+      const price = given_prices[index];
       if (isNaN(price)) {
         continue;
       }
@@ -309,7 +454,7 @@ export class Predictor {
         price > max_pred + this.fudgeFactor
       ) {
         // Given price is out of predicted range, so this is the wrong pattern
-        return 0;
+        return this.reject(index, min_pred, max_pred, rate_min, rate_range[1]);
       }
       // TODO: How to deal with probability when there's fudge factor?
       // Clamp the value to be in range now so the probability won't be totally biased to fudged values.
@@ -317,20 +462,10 @@ export class Predictor {
         clamp(price, min_pred, max_pred) + 1,
         buy_price
       );
-      const F = (t: number, ZZ: number) => {
-        if (t <= 0) {
-          return 0;
-        }
-        return ZZ < t ? ZZ : t - t * (Math.log(t) - Math.log(ZZ));
-      };
-      const [A, B] = rate_range;
-      const C = rate_min;
-      const Z1 = A - C;
-      const Z2 = B - C;
-      const PY = (t: number) => (F(t - C, Z2) - F(t - C, Z1)) / (Z2 - Z1);
+      const PY = this.peak_side_cdf(rate_range, rate_min);
       prob *= PY(rate2_range[1]) - PY(rate2_range[0]);
       if (prob == 0) {
-        return 0;
+        return this.reject(index, min_pred, max_pred, rate_min, rate_range[1]);
       }
     }
 
@@ -348,6 +483,14 @@ export class Predictor {
     predicted_prices.push({
       min: min_pred,
       max: max_pred,
+      distribution: this.distribution_of(
+        given_prices[start],
+        () => this.peak_side_cdf(rate_range, rate_min),
+        min_pred,
+        max_pred,
+        buy_price,
+        -1
+      ),
     });
 
     // Main spike 2
@@ -360,6 +503,13 @@ export class Predictor {
     predicted_prices.push({
       min: min_pred,
       max: max_pred,
+      distribution: this.distribution_of(
+        given_prices[start + 1],
+        () => uniformCdf(rate_range[0], rate_range[1]),
+        min_pred,
+        max_pred,
+        buy_price
+      ),
     });
 
     // Main spike 3
@@ -372,13 +522,75 @@ export class Predictor {
     predicted_prices.push({
       min: min_pred,
       max: max_pred,
+      distribution: this.distribution_of(
+        given_prices[start + 2],
+        () => this.peak_side_cdf(rate_range, rate_min),
+        min_pred,
+        max_pred,
+        buy_price,
+        -1
+      ),
     });
 
     return prob;
   }
 
+  /*
+   * High phase 1 and decreasing phase 1 of pattern 0. They don't depend on the
+   * lengths of the later phases, so generate_pattern_0 shares them between
+   * every high_phase_3_len.
+   */
+  private generate_pattern_0_first_phases(
+    given_prices: Array<number>,
+    high_phase_1_len: number,
+    dec_phase_1_len: number
+  ) {
+    const buy_price = given_prices[0];
+    const predicted_prices = [
+      {
+        min: buy_price,
+        max: buy_price,
+      },
+      {
+        min: buy_price,
+        max: buy_price,
+      },
+    ];
+    let probability = 1;
+
+    // High Phase 1
+    probability *= this.generate_individual_random_price(
+      given_prices,
+      predicted_prices,
+      2,
+      high_phase_1_len,
+      0.9,
+      1.4
+    );
+    if (probability === 0) {
+      return { predicted_prices, probability };
+    }
+
+    // Dec Phase 1
+    probability *= this.generate_decreasing_random_price(
+      given_prices,
+      predicted_prices,
+      2 + high_phase_1_len,
+      dec_phase_1_len,
+      0.6,
+      0.8,
+      0.04,
+      0.1
+    );
+    return { predicted_prices, probability };
+  }
+
   private *generate_pattern_0_with_lengths(
     given_prices: Array<number>,
+    first_phases: {
+      predicted_prices: Array<PredictedRange>;
+      probability: number;
+    },
     high_phase_1_len: number,
     dec_phase_1_len: number,
     high_phase_2_len: number,
@@ -421,46 +633,8 @@ export class Predictor {
           }
       */
 
-    const buy_price = given_prices[0];
-    const predicted_prices = [
-      {
-        min: buy_price,
-        max: buy_price,
-      },
-      {
-        min: buy_price,
-        max: buy_price,
-      },
-    ];
-    let probability = 1;
-
-    // High Phase 1
-    probability *= this.generate_individual_random_price(
-      given_prices,
-      predicted_prices,
-      2,
-      high_phase_1_len,
-      0.9,
-      1.4
-    );
-    if (probability === 0) {
-      return;
-    }
-
-    // Dec Phase 1
-    probability *= this.generate_decreasing_random_price(
-      given_prices,
-      predicted_prices,
-      2 + high_phase_1_len,
-      dec_phase_1_len,
-      0.6,
-      0.8,
-      0.04,
-      0.1
-    );
-    if (probability === 0) {
-      return;
-    }
+    const predicted_prices = first_phases.predicted_prices.slice();
+    let probability = first_phases.probability;
 
     // High Phase 2
     probability *= this.generate_individual_random_price(
@@ -539,6 +713,14 @@ export class Predictor {
       */
     for (var dec_phase_1_len = 2; dec_phase_1_len < 4; dec_phase_1_len++) {
       for (var high_phase_1_len = 0; high_phase_1_len < 7; high_phase_1_len++) {
+        const first_phases = this.generate_pattern_0_first_phases(
+          given_prices,
+          high_phase_1_len,
+          dec_phase_1_len
+        );
+        if (first_phases.probability === 0) {
+          continue;
+        }
         for (
           var high_phase_3_len = 0;
           high_phase_3_len < 7 - high_phase_1_len - 1 + 1;
@@ -547,6 +729,7 @@ export class Predictor {
           yield* this.multiply_generator_probability(
             this.generate_pattern_0_with_lengths(
               given_prices,
+              first_phases,
               high_phase_1_len,
               dec_phase_1_len,
               7 - high_phase_1_len - high_phase_3_len,
@@ -815,6 +998,10 @@ export class Predictor {
   private get_transition_probability(
     previous_pattern?: Pattern
   ): Array<number> | NumberIndexedObject {
+    if (this.previousPatternProbabilities) {
+      return transitionFrom(this.previousPatternProbabilities);
+    }
+
     if (
       typeof previous_pattern === "undefined" ||
       Number.isNaN(previous_pattern) ||
@@ -822,12 +1009,7 @@ export class Predictor {
       previous_pattern < 0 ||
       previous_pattern > 3
     ) {
-      // Use the steady state probabilities of PROBABILITY_MATRIX if we don't
-      // know what the previous pattern was.
-      // See https://github.com/mikebryant/ac-nh-turnip-prices/issues/68
-      // and https://github.com/mikebryant/ac-nh-turnip-prices/pull/90
-      // for more information.
-      return [4530 / 13082, 3236 / 13082, 1931 / 13082, 3385 / 13082];
+      return STEADY_STATE_PROBABILITIES;
     }
 
     return PROBABILITY_MATRIX[previous_pattern];
@@ -876,12 +1058,16 @@ export class Predictor {
     }
   }
 
-  public analyzePossibilities(): Array<PredicationResult> {
+  /*
+   * Generates every possibility that matches the given prices, raising the
+   * fudge factor until at least one is found. Probabilities are not normalised.
+   */
+  private generate_matching_possibilities(): Array<Possibility> {
     const sell_prices = this.prices;
     const first_buy = this.firstBuy;
     const previous_pattern = this.previousPattern;
 
-    let generated_possibilities = new Array<PredicationResult>();
+    let generated_possibilities = new Array<Possibility>();
 
     for (let i = 0; i < 6; i++) {
       this.fudgeFactor = i;
@@ -898,6 +1084,19 @@ export class Predictor {
       }
     }
 
+    return generated_possibilities;
+  }
+
+  /*
+   * Same as generate_matching_possibilities, with probabilities normalised to
+   * sum up to 1.
+   */
+  private compute_possibilities(): Array<Possibility> {
+    if (this.computed && (this.computed.tracked || !this.trackDistributions)) {
+      return this.computed.possibilities;
+    }
+    const generated_possibilities = this.generate_matching_possibilities();
+
     const total_probability = generated_possibilities.reduce(
       (acc, it) => acc + it.probability,
       0
@@ -906,6 +1105,188 @@ export class Predictor {
       it.probability /= total_probability;
     }
 
+    this.computed = {
+      possibilities: generated_possibilities,
+      tracked: this.trackDistributions,
+    };
+    return generated_possibilities;
+  }
+
+  /**
+   * Probability-weighted price forecast for every half-day that doesn't have
+   * an observed price yet, combining the distributions of all possibilities.
+   */
+  public analyzeDistributions(): Array<HalfDayForecast> {
+    this.trackDistributions = true;
+    const possibilities = this.compute_possibilities();
+    this.trackDistributions = false;
+    if (possibilities.length === 0) {
+      return [];
+    }
+
+    return WEEKDAYS.flatMap((day) =>
+      HALF_DAYS.map((period) => ({ day, period }))
+    )
+      .filter(({ day, period }) => isNaN(this.prices[priceIndex(day, period)]))
+      .map(({ day, period }) => {
+        const index = priceIndex(day, period);
+        const distribution = mixDistributions(
+          possibilities.map((poss) => ({
+            distribution: poss.prices[index].distribution!,
+            weight: poss.probability,
+          }))
+        );
+        return {
+          day,
+          period,
+          min: Math.min(...possibilities.map((poss) => poss.prices[index].min)),
+          max: Math.max(...possibilities.map((poss) => poss.prices[index].max)),
+          expected: expectedValue(distribution),
+          median: quantile(distribution, 0.5),
+          p10: quantile(distribution, 0.1),
+          p90: quantile(distribution, 0.9),
+          distribution,
+        };
+      });
+  }
+
+  /**
+   * Expected highest price from the given half-day until the end of the week:
+   * each possibility's expected peak, weighted by its probability. Prices
+   * within a possibility are taken as independent of each other.
+   */
+  public expectedMaximum(day: Weekday, period: HalfDay): number {
+    this.trackDistributions = true;
+    const possibilities = this.compute_possibilities();
+    this.trackDistributions = false;
+
+    const from = priceIndex(day, period);
+    return floatSum(
+      possibilities.map(
+        (poss) =>
+          poss.probability *
+          expectedValue(
+            maxDistribution(
+              poss.prices.slice(from).map((price) => price.distribution!)
+            )
+          )
+      )
+    );
+  }
+
+  /**
+   * Likelihood of the given prices under each pattern, P(prices | pattern),
+   * up to a constant factor shared by all patterns.
+   */
+  public patternLikelihoods(): Array<number> {
+    const transition_probability = this.firstBuy
+      ? [0, 0, 0, 1]
+      : this.get_transition_probability(this.previousPattern);
+    const likelihoods = [0, 0, 0, 0];
+    for (const poss of this.generate_matching_possibilities()) {
+      const prior = transition_probability[poss.patternNumber];
+      if (prior > 0) {
+        likelihoods[poss.patternNumber] += poss.probability / prior;
+      }
+    }
+    return likelihoods;
+  }
+
+  /*
+   * Summarises the rejections of every variant of a pattern. The pattern
+   * only became impossible once its last variant was rejected, so that's the
+   * half-day reported.
+   */
+  private summarize_rejections(
+    rejections: Array<RejectedPrice>
+  ): PatternRejection | undefined {
+    if (rejections.length === 0) {
+      return undefined;
+    }
+    const index = Math.max(...rejections.map((it) => it.index));
+    const at_index = rejections.filter((it) => it.index === index);
+    const rate = (value: number) => Math.round(value) / RATE_MULTIPLIER;
+    return {
+      ...halfDayAt(index),
+      price: this.prices[index],
+      expectedPrice: {
+        min: Math.min(...at_index.map((it) => it.min)),
+        max: Math.max(...at_index.map((it) => it.max)),
+      },
+      rateRange: {
+        min: rate(Math.min(...at_index.map((it) => it.rateMin))),
+        max: rate(Math.max(...at_index.map((it) => it.rateMax))),
+      },
+    };
+  }
+
+  /**
+   * Explains a prediction: the fudge factor that was needed to match the
+   * prices, and for each pattern either its probability or the observed
+   * price that ruled it out.
+   */
+  public diagnose(): PredictionDiagnostics {
+    const possibilities = this.compute_possibilities();
+    const generate_pattern_fns = [
+      this.generate_pattern_0,
+      this.generate_pattern_1,
+      this.generate_pattern_2,
+      this.generate_pattern_3,
+    ];
+    const buy_prices: Array<number> = [];
+    if (this.firstBuy || isNaN(this.prices[0])) {
+      for (let price = MIN_BUY_PRICE; price <= MAX_BUY_PRICE; price++) {
+        buy_prices.push(price);
+      }
+    } else {
+      buy_prices.push(this.prices[0]);
+    }
+
+    const patterns = [0, 1, 2, 3].map((patternNumber): PatternDiagnosis => {
+      const diagnosis = {
+        patternNumber,
+        patternName: Pattern[patternNumber],
+        probability: possibilities
+          .filter((poss) => poss.patternNumber === patternNumber)
+          .reduce((acc, poss) => acc + poss.probability, 0),
+      };
+      if (diagnosis.probability > 0) {
+        return diagnosis;
+      }
+      if (this.firstBuy && patternNumber !== Pattern.SMALL_SPIKE) {
+        return {
+          ...diagnosis,
+          reason: "The first week on an island is always SMALL_SPIKE",
+        };
+      }
+
+      const rejections: Array<RejectedPrice> = [];
+      this.rejections = rejections;
+      for (const buy_price of buy_prices) {
+        const sell_prices = this.prices.slice();
+        sell_prices[0] = sell_prices[1] = buy_price;
+        Array.from(generate_pattern_fns[patternNumber].call(this, sell_prices));
+      }
+      this.rejections = undefined;
+
+      const rejectedAt = this.summarize_rejections(rejections);
+      if (!rejectedAt) {
+        return { ...diagnosis, reason: "Ruled out by last week's pattern" };
+      }
+      return { ...diagnosis, rejectedAt };
+    });
+
+    return {
+      fudgeFactor: this.fudgeFactor,
+      noMatch: possibilities.length === 0,
+      patterns,
+    };
+  }
+
+  public analyzePossibilities(): Array<PredicationResult> {
+    // Copied, as this sorts the possibilities and adds the ALL entry.
+    const generated_possibilities = this.compute_possibilities().slice();
+
     for (let poss of generated_possibilities) {
       var weekMins = [];
       var weekMaxes = [];
@@ -976,6 +1357,6 @@ export class Predictor {
       categoryTotalProbability: 0,
     });
 
-    return generated_possibilities;
+    return generated_possibilities.map(toPredicationResult);
   }
 }
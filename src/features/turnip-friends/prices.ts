@@ -0,0 +1,170 @@
+import {
+  HalfDay,
+  HalfDaySlot,
+  MinMax,
+  Possibility,
+  PredicationResult,
+  PredictedPrice,
+  PredictorInput,
+  TurnipPrices,
+  Weekday,
+} from "./types";
+
+export const WEEKDAYS: Array<Weekday> = [
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+export const HALF_DAYS: Array<HalfDay> = ["AM", "PM"];
+
+export const MIN_BUY_PRICE = 90;
+export const MAX_BUY_PRICE = 110;
+export const MIN_SELL_PRICE = 9;
+export const MAX_SELL_PRICE = 660;
+
+/** Index of a half-day in the engine's price array. */
+export function priceIndex(day: Weekday, period: HalfDay) {
+  return 2 + WEEKDAYS.indexOf(day) * 2 + HALF_DAYS.indexOf(period);
+}
+
+/** Inverse of priceIndex for indices 2-13. */
+export function halfDayAt(index: number): HalfDaySlot {
+  return {
+    day: WEEKDAYS[Math.floor((index - 2) / 2)],
+    period: HALF_DAYS[(index - 2) % 2],
+  };
+}
+
+function checkPrice(
+  errors: Array<string>,
+  name: string,
+  price: number | undefined,
+  min: number,
+  max: number
+) {
+  if (price === undefined) {
+    return;
+  }
+  if (!Number.isInteger(price) || price < min || price > max) {
+    errors.push(
+      `${name} must be a whole number between ${min} and ${max}, got ${price}`
+    );
+  }
+}
+
+function checkPreviousPattern(errors: Array<string>, input: PredictorInput) {
+  const { previousPattern, previousPatternProbabilities: probabilities } =
+    input;
+  if (
+    previousPattern !== undefined &&
+    !(
+      Number.isInteger(previousPattern) &&
+      previousPattern >= 0 &&
+      previousPattern <= 3
+    )
+  ) {
+    errors.push(`previousPattern must be 0, 1, 2 or 3, got ${previousPattern}`);
+  }
+  if (probabilities === undefined) {
+    return;
+  }
+  if (
+    !Array.isArray(probabilities) ||
+    probabilities.length !== 4 ||
+    !probabilities.every((p) => Number.isFinite(p) && p >= 0) ||
+    probabilities.reduce((acc, p) => acc + p, 0) <= 0
+  ) {
+    const got = JSON.stringify(probabilities);
+    errors.push(
+      `previousPatternProbabilities must be 4 numbers of at least 0, not all 0, got ${got}`
+    );
+  }
+}
+
+/**
+ * Throws an error listing every price that can't occur in the game, and
+ * every previous pattern that isn't one.
+ */
+export function validatePrices(input: PredictorInput) {
+  const errors: Array<string> = [];
+  checkPrice(errors, "buyPrice", input.buyPrice, MIN_BUY_PRICE, MAX_BUY_PRICE);
+  for (const day of WEEKDAYS) {
+    checkPrice(
+      errors,
+      `${day} AM`,
+      input[day]?.am,
+      MIN_SELL_PRICE,
+      MAX_SELL_PRICE
+    );
+    checkPrice(
+      errors,
+      `${day} PM`,
+      input[day]?.pm,
+      MIN_SELL_PRICE,
+      MAX_SELL_PRICE
+    );
+  }
+  checkPreviousPattern(errors, input);
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid turnip prices: ${errors.join("; ")}`);
+  }
+}
+
+/**
+ * Converts named prices into the engine's array layout, using NaN for
+ * half-days without a price.
+ */
+export function toPriceArray(input: TurnipPrices): Array<number> {
+  const buyPrice = input.buyPrice ?? NaN;
+  const prices = [buyPrice, buyPrice];
+  for (const day of WEEKDAYS) {
+    prices.push(input[day]?.am ?? NaN, input[day]?.pm ?? NaN);
+  }
+  return prices;
+}
+
+/**
+ * Inverse of toPriceArray; NaN entries become undefined.
+ */
+export function fromPriceArray(prices: Array<number>): TurnipPrices {
+  const value = (price: number) => (isNaN(price) ? undefined : price);
+  const input: TurnipPrices = { buyPrice: value(prices[0]) };
+  for (const day of WEEKDAYS) {
+    input[day] = {
+      am: value(prices[priceIndex(day, "AM")]),
+      pm: value(prices[priceIndex(day, "PM")]),
+    };
+  }
+  return input;
+}
+
+export function labelPrices(prices: Array<MinMax>): Array<PredictedPrice> {
+  const labelled = [];
+  for (let index = 2; index < 14; index++) {
+    const { day, period } = halfDayAt(index);
+    labelled.push({
+      day,
+      period,
+      min: prices[index].min,
+      max: prices[index].max,
+    });
+  }
+  return labelled;
+}
+
+export function toPredicationResult(
+  possibility: Possibility
+): PredicationResult {
+  return {
+    ...possibility,
+    buyPrice: {
+      min: possibility.prices[0].min,
+      max: possibility.prices[0].max,
+    },
+    prices: labelPrices(possibility.prices),
+  };
+}
@@ -0,0 +1,38 @@
+import { describe, expect, test } from "bun:test";
+import { recommendSale } from "./recommendation";
+
+describe("recommendSale", () => {
+  test("sells at a price no later half-day can beat", () => {
+    const recommendation = recommendSale({
+      prices: {
+        buyPrice: 100,
+        monday: { am: 88, pm: 120 },
+        tuesday: { am: 170, pm: 560 },
+      },
+      day: "tuesday",
+      period: "PM",
+    });
+    expect(recommendation.action).toBe("sell");
+    expect(recommendation.sellNow.expectedValue).toBe(560);
+  });
+
+  test("holds when a spike is still likely to come", () => {
+    const recommendation = recommendSale({
+      prices: { buyPrice: 100, monday: { am: 88, pm: 84 } },
+      day: "monday",
+      period: "PM",
+    });
+    expect(recommendation.action).toBe("hold");
+    expect(recommendation.hold!.expectedValue).toBeGreaterThan(84);
+  });
+
+  test("refuses to recommend when the prices match no pattern", () => {
+    expect(() =>
+      recommendSale({
+        prices: { buyPrice: 100, monday: { am: 600 } },
+        day: "monday",
+        period: "AM",
+      })
+    ).toThrow("These prices don't match any pattern; check them for typos");
+  });
+});
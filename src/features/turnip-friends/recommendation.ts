@@ -0,0 +1,83 @@
+import { expectedValue, probabilityAtLeast, quantile } from "./distribution";
+import { Predictor } from "./predictionEngine";
+import { priceIndex } from "./prices";
+import {
+  HalfDayForecast,
+  HoldOption,
+  RiskPreference,
+  SaleDecisionInput,
+  SaleRecommendation,
+} from "./types";
+
+/**
+ * Price a forecast is judged by: risk averse players look at a pessimistic
+ * outcome, risk seeking players at an optimistic one.
+ */
+function score(forecast: HalfDayForecast, preference: RiskPreference) {
+  switch (preference) {
+    case "averse":
+      return quantile(forecast.distribution, 0.25);
+    case "seeking":
+      return quantile(forecast.distribution, 0.75);
+    default:
+      return expectedValue(forecast.distribution);
+  }
+}
+
+/**
+ * Decides whether to sell at the current half-day's price or hold on for a
+ * later half-day, using the price distributions of every remaining
+ * possibility. Throws if the prices match no pattern.
+ */
+export function recommendSale(input: SaleDecisionInput): SaleRecommendation {
+  const { prices, day, period, riskPreference = "neutral" } = input;
+  const buyPrice = prices.buyPrice;
+  const currentPrice = prices[day]?.[period === "AM" ? "am" : "pm"];
+  if (buyPrice === undefined) {
+    throw new Error("A buy price is required to recommend a sale");
+  }
+  if (currentPrice === undefined) {
+    throw new Error(`No price given for ${day} ${period}`);
+  }
+
+  const sellNow = {
+    expectedValue: currentPrice,
+    probabilityBelowBuyPrice: currentPrice < buyPrice ? 1 : 0,
+  };
+
+  const currentIndex = priceIndex(day, period);
+  const predictor = new Predictor(prices);
+  const futureForecasts = predictor
+    .analyzeDistributions()
+    .filter(
+      (forecast) => priceIndex(forecast.day, forecast.period) > currentIndex
+    );
+  // Without a matching pattern there's no forecast to weigh selling against.
+  if (predictor.analyzePossibilities().length === 1) {
+    throw new Error(
+      "These prices don't match any pattern; check them for typos"
+    );
+  }
+
+  let hold: HoldOption | undefined;
+  let bestScore = -Infinity;
+  for (const forecast of futureForecasts) {
+    const forecastScore = score(forecast, riskPreference);
+    if (forecastScore > bestScore) {
+      bestScore = forecastScore;
+      hold = {
+        day: forecast.day,
+        period: forecast.period,
+        expectedValue: forecast.expected,
+        probabilityBelowBuyPrice:
+          1 - probabilityAtLeast(forecast.distribution, buyPrice),
+      };
+    }
+  }
+
+  return {
+    action: hold && bestScore > currentPrice ? "hold" : "sell",
+    sellNow,
+    hold,
+  };
+}
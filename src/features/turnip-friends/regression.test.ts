@@ -0,0 +1,322 @@
+import { describe, expect, test } from "bun:test";
+import inputs from "./fixtures/inputs.json";
+import { Predictor } from "./predictionEngine";
+import { fromPriceArray } from "./prices";
+import { Pattern, PredicationResult, PredictorInput } from "./types";
+
+// Snapshot of this port's output for every input in fixtures/inputs.json. It
+// was captured from the port itself, not from the reference predictions.js, so
+// it only catches unintended changes. Correctness is checked against the
+// game's own price generator and rules further down. Regenerate it after an
+// intentional change with UPDATE_SNAPSHOT=1 bun run check_predictor.
+const SNAPSHOT_PATH = "src/features/turnip-friends/fixtures/predictions.json";
+
+interface Snapshot {
+  name: string;
+  possibilityCount: number;
+  /** categoryTotalProbability per Pattern. */
+  patterns: Array<number>;
+  weekGuaranteedMinimum: number;
+  weekMax: number;
+  /** Overall min/max per half-day, Mon AM - Sat PM. */
+  prices: Array<[number, number]>;
+}
+
+function summarize(name: string, results: Array<PredicationResult>): Snapshot {
+  const [all, ...possibilities] = results;
+  const patterns = [0, 1, 2, 3].map(
+    (pattern) =>
+      possibilities.find((poss) => poss.patternNumber === pattern)
+        ?.categoryTotalProbability ?? 0
+  );
+
+  return {
+    name,
+    possibilityCount: possibilities.length,
+    patterns,
+    weekGuaranteedMinimum: all.weekGuaranteedMinimum,
+    weekMax: all.weekMax,
+    prices: all.prices.map((price) => [price.min, price.max]),
+  };
+}
+
+function predict(input: PredictorInput) {
+  return new Predictor(input).analyzePossibilities();
+}
+
+const actual = inputs.map(({ name, input }) =>
+  summarize(name, predict(input as PredictorInput))
+);
+if (process.env.UPDATE_SNAPSHOT) {
+  await Bun.write(SNAPSHOT_PATH, JSON.stringify(actual, null, 2) + "\n");
+}
+const snapshot: Array<Snapshot> = await Bun.file(SNAPSHOT_PATH).json();
+
+describe("unchanged since the snapshot", () => {
+  for (const result of actual) {
+    test(result.name, () => {
+      const expected = snapshot.find((it) => it.name === result.name);
+      expect(expected).toBeDefined();
+
+      const { patterns, ...rest } = result;
+      const { patterns: expectedPatterns, ...expectedRest } = expected!;
+      expect(rest).toEqual(expectedRest);
+      expectedPatterns.forEach((probability, pattern) =>
+        expect(patterns[pattern]).toBeCloseTo(probability, 6)
+      );
+    });
+  }
+});
+
+describe("fudge factor", () => {
+  // Monday AM can be at most 140 for a buy price of 100, so every bell above
+  // that needs one more step of fudge factor.
+  for (const fudgeFactor of [1, 2, 3, 4, 5]) {
+    test(`widens ranges by ${fudgeFactor}`, () => {
+      const am = 140 + fudgeFactor;
+      const predictor = new Predictor({ buyPrice: 100, monday: { am } });
+      expect(predictor.diagnose().fudgeFactor).toBe(fudgeFactor);
+
+      const [all, ...possibilities] = predictor.analyzePossibilities();
+      expect(possibilities.length).toBeGreaterThan(0);
+      expect(all.prices[0]).toMatchObject({ min: am, max: am });
+    });
+  }
+
+  test("gives up on prices more than 5 bells out of range", () => {
+    const [, ...possibilities] = predict({
+      buyPrice: 100,
+      monday: { am: 146 },
+    });
+    expect(possibilities).toEqual([]);
+  });
+
+  test("finds no match for impossible prices", () => {
+    const [, ...possibilities] = predict({
+      buyPrice: 100,
+      monday: { am: 600 },
+    });
+    expect(possibilities).toEqual([]);
+  });
+});
+
+describe("input validation", () => {
+  const predictor = (input: Record<string, unknown>) => () =>
+    new Predictor({ buyPrice: 100, ...input } as PredictorInput);
+
+  test("rejects a previous pattern outside 0-3", () => {
+    for (const previousPattern of [-1, 4, 1.5, NaN, "1", null]) {
+      expect(predictor({ previousPattern })).toThrow(
+        "previousPattern must be 0, 1, 2 or 3"
+      );
+    }
+    expect(predictor({ previousPattern: 3 })).not.toThrow();
+  });
+
+  test("rejects previous pattern probabilities that aren't 4 weights", () => {
+    for (const previousPatternProbabilities of [
+      ["x", 0, 0, 0],
+      [1],
+      [1, 0, 0, 0, 0],
+      [-1, 1, 1, 1],
+      [Infinity, 0, 0, 0],
+      [0, 0, 0, 0],
+      {},
+    ]) {
+      expect(predictor({ previousPatternProbabilities })).toThrow(
+        "previousPatternProbabilities must be 4 numbers"
+      );
+    }
+    expect(
+      predictor({ previousPatternProbabilities: [0, 2, 0, 2] })
+    ).not.toThrow();
+  });
+});
+
+describe("diagnose", () => {
+  test("flags prices that match no pattern", () => {
+    const diagnostics = new Predictor({
+      buyPrice: 100,
+      monday: { am: 600 },
+    }).diagnose();
+    expect(diagnostics.noMatch).toBe(true);
+    expect(diagnostics.patterns.every((it) => it.probability === 0)).toBe(true);
+
+    expect(new Predictor({ buyPrice: 100 }).diagnose().noMatch).toBe(false);
+  });
+
+  test("reports the range a decreasing week allowed", () => {
+    const { patterns } = new Predictor({
+      buyPrice: 100,
+      monday: { am: 88, pm: 95 },
+    }).diagnose();
+    const { rejectedAt } = patterns[Pattern.DECREASING];
+
+    expect(rejectedAt).toMatchObject({
+      day: "monday",
+      period: "PM",
+      price: 95,
+      expectedPrice: { min: 82, max: 86 },
+    });
+    expect(rejectedAt!.rateRange.min).toBeGreaterThan(0.8);
+    expect(rejectedAt!.rateRange.max).toBeLessThan(0.9);
+  });
+
+  test("reports the half-day the last variant was ruled out on", () => {
+    // A large spike that starts rising on Monday PM is ruled out straight
+    // away, but one that starts as late as possible only on Thursday PM.
+    const { patterns } = new Predictor({
+      buyPrice: 100,
+      monday: { am: 90, pm: 86 },
+      tuesday: { am: 82, pm: 78 },
+      wednesday: { am: 74, pm: 70 },
+      thursday: { am: 66, pm: 62 },
+    }).diagnose();
+
+    expect(patterns[Pattern.LARGE_SPIKE].rejectedAt).toMatchObject({
+      day: "thursday",
+      period: "PM",
+    });
+  });
+});
+
+describe("game rules", () => {
+  // Percent chance of each pattern this week, per pattern last week, from the
+  // game's code.
+  const TRANSITIONS = [
+    [20, 30, 15, 35],
+    [50, 5, 20, 25],
+    [25, 45, 5, 25],
+    [45, 25, 15, 15],
+  ];
+
+  test("unknown previous pattern uses the long-run pattern frequencies", () => {
+    let frequencies = [0.25, 0.25, 0.25, 0.25];
+    for (let i = 0; i < 100; i++) {
+      frequencies = [0, 1, 2, 3].map((next) =>
+        frequencies.reduce(
+          (acc, p, prev) => acc + (p * TRANSITIONS[prev][next]) / 100,
+          0
+        )
+      );
+    }
+
+    const { patterns } = summarize("", predict({ buyPrice: 100 }));
+    frequencies.forEach((p, pattern) =>
+      expect(patterns[pattern]).toBeCloseTo(p, 9)
+    );
+  });
+
+  test("known previous pattern uses its transition probabilities", () => {
+    for (const previousPattern of [0, 1, 2, 3]) {
+      const { patterns } = summarize(
+        "",
+        predict({ buyPrice: 100, previousPattern })
+      );
+      TRANSITIONS[previousPattern].forEach((percent, pattern) =>
+        expect(patterns[pattern]).toBeCloseTo(percent / 100, 9)
+      );
+    }
+  });
+
+  test("first buy is always a small spike", () => {
+    const [, ...possibilities] = predict({ buyPrice: 97, firstBuy: true });
+    expect(possibilities.length).toBeGreaterThan(0);
+    for (const poss of possibilities) {
+      expect(poss.patternNumber).toBe(Pattern.SMALL_SPIKE);
+    }
+  });
+
+  test("price ranges follow the game's rates", () => {
+    const [all] = predict({ buyPrice: 100 });
+    // Small spikes can open at 40% of the buy price, fluctuating weeks at 140%.
+    expect(all.prices[0]).toMatchObject({ min: 40, max: 140 });
+    // Large spikes peak at up to 600%.
+    expect(all.weekMax).toBe(600);
+  });
+});
+
+/**
+ * The game's turnip price generator, compiled to WebAssembly by the
+ * turnip-price package. Its JavaScript wrapper needs a bundler, so the module
+ * is instantiated directly.
+ */
+async function loadGenerator() {
+  const path = require.resolve("turnip-price/turnip_price_bg.wasm");
+  const { instance } = await WebAssembly.instantiate(
+    await Bun.file(path).arrayBuffer(),
+    {
+      "./turnip_price.js": {
+        __wbindgen_throw: () => {
+          throw new Error("turnip-price failed");
+        },
+      },
+    }
+  );
+  const wasm = instance.exports as Record<string, any>;
+
+  return (previousPattern: Pattern, seed: number) => {
+    const week = wasm.calculate(previousPattern, seed);
+    const result = {
+      pattern: wasm.turnipprice_pattern(week) as Pattern,
+      buyPrice: wasm.turnipprice_buying_price(week) as number,
+      // Mon AM - Sat PM
+      prices: Array.from(
+        new Int32Array(
+          wasm.memory.buffer,
+          wasm.turnipprice_selling_prices(week),
+          12
+        )
+      ),
+    };
+    wasm.__wbg_turnipprice_free(week);
+    return result;
+  };
+}
+
+describe("game parity", async () => {
+  const generate = await loadGenerator();
+  const WEEKS_PER_PATTERN = 40;
+
+  // Predicting from the first few prices of a generated week must never rule
+  // out the week's real pattern, or the prices it goes on to reach.
+  for (const previousPattern of [0, 1, 2, 3]) {
+    test(`weeks after ${Pattern[previousPattern]}`, () => {
+      for (let i = 0; i < WEEKS_PER_PATTERN; i++) {
+        const seed = (i * 2654435761 + previousPattern) >>> 0;
+        const { pattern, buyPrice, prices } = generate(previousPattern, seed);
+
+        for (const observed of [0, 4, 8, 12]) {
+          const week = [buyPrice, buyPrice, ...prices].map((price, index) =>
+            index < observed + 2 ? price : NaN
+          );
+          const predictor = new Predictor({
+            ...fromPriceArray(week),
+            previousPattern,
+          });
+          const matches = predictor
+            .analyzePossibilities()
+            .slice(1)
+            .filter(
+              (poss) =>
+                poss.patternNumber === pattern &&
+                poss.prices.every(
+                  (range, day) =>
+                    prices[day] >= range.min && prices[day] <= range.max
+                )
+            );
+
+          const context = `seed ${seed}, ${observed} prices observed`;
+          expect({ context, matched: matches.length > 0 }).toEqual({
+            context,
+            matched: true,
+          });
+          expect({ context, fudge: predictor.diagnose().fudgeFactor }).toEqual({
+            context,
+            fudge: 0,
+          });
+        }
+      }
+    });
+  }
+});
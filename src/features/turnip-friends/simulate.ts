@@ -0,0 +1,63 @@
+import { Predictor } from "./predictionEngine";
+import { fromPriceArray } from "./prices";
+import { TurnipSimulator } from "./simulator";
+import { Pattern } from "./types";
+
+// Checks the Predictor against simulated weeks: every week must be covered by
+// at least one predicted possibility, and the predicted pattern probabilities
+// should match how often each pattern was actually simulated. This prints
+// both for any seed; simulator.test.ts asserts them for a fixed one.
+const count = parseInt(process.argv[2] ?? "200", 10);
+const seed = parseInt(process.argv[3] ?? "1", 10);
+
+const simulator = new TurnipSimulator(seed);
+const weeks = simulator.simulateWeeks(count);
+const predicted = [0, 0, 0, 0];
+const actual = [0, 0, 0, 0];
+let uncovered = 0;
+
+weeks.forEach((week, i) => {
+  // Reveal a random number of half-days, like a player part way through the week.
+  const known = (i * 7) % 13;
+  const given = week.prices.map((price, index) =>
+    index < 2 + known ? price : NaN
+  );
+  const possibilities = new Predictor(fromPriceArray(given))
+    .analyzePossibilities()
+    .slice(1);
+
+  const covered = possibilities.some((poss) =>
+    poss.prices.every(
+      (price, index) =>
+        week.prices[index + 2] >= price.min &&
+        week.prices[index + 2] <= price.max
+    )
+  );
+  if (!covered) {
+    uncovered++;
+    console.error(
+      `Week ${i} (${Pattern[week.pattern]}) is not covered:`,
+      week.prices
+    );
+  }
+
+  for (const poss of possibilities) {
+    predicted[poss.patternNumber] += poss.probability;
+  }
+  actual[week.pattern]++;
+});
+
+console.table(
+  [0, 1, 2, 3].map((pattern) => ({
+    pattern: Pattern[pattern],
+    predicted: (predicted[pattern] / count).toFixed(3),
+    simulated: (actual[pattern] / count).toFixed(3),
+  }))
+);
+console.log(
+  `${count - uncovered}/${count} simulated weeks covered by a prediction`
+);
+
+if (uncovered > 0) {
+  process.exit(1);
+}
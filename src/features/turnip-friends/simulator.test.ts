@@ -0,0 +1,60 @@
+import { describe, expect, test } from "bun:test";
+import { Predictor } from "./predictionEngine";
+import { fromPriceArray } from "./prices";
+import { TurnipSimulator } from "./simulator";
+import { Pattern } from "./types";
+
+const SEED = 1;
+const WEEKS = 600;
+// How far a pattern's simulated frequency may be from its mean predicted
+// probability. With 600 weeks one standard deviation is at most 0.02.
+const TOLERANCE = 0.05;
+
+describe("TurnipSimulator", () => {
+  const weeks = new TurnipSimulator(SEED).simulateWeeks(WEEKS);
+  const predicted = [0, 0, 0, 0];
+  const simulated = [0, 0, 0, 0];
+  let uncovered = 0;
+
+  weeks.forEach((week, i) => {
+    // Reveal a different number of half-days each week, like a player part
+    // way through the week.
+    const known = (i * 7) % 13;
+    const given = week.prices.map((price, index) =>
+      index < 2 + known ? price : NaN
+    );
+    const possibilities = new Predictor({
+      ...fromPriceArray(given),
+      previousPattern: i > 0 ? weeks[i - 1].pattern : undefined,
+    })
+      .analyzePossibilities()
+      .slice(1);
+
+    const covered = possibilities.some((poss) =>
+      poss.prices.every(
+        (price, index) =>
+          week.prices[index + 2] >= price.min &&
+          week.prices[index + 2] <= price.max
+      )
+    );
+    if (!covered) {
+      uncovered++;
+    }
+    for (const poss of possibilities) {
+      predicted[poss.patternNumber] += poss.probability / WEEKS;
+    }
+    simulated[week.pattern] += 1 / WEEKS;
+  });
+
+  test("every simulated week is covered by a prediction", () => {
+    expect(uncovered).toBe(0);
+  });
+
+  for (const pattern of [0, 1, 2, 3]) {
+    test(`${Pattern[pattern]} is predicted as often as it's simulated`, () => {
+      expect(Math.abs(predicted[pattern] - simulated[pattern])).toBeLessThan(
+        TOLERANCE
+      );
+    });
+  }
+});
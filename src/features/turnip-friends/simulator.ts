@@ -0,0 +1,200 @@
+import {
+  PROBABILITY_MATRIX,
+  STEADY_STATE_PROBABILITIES,
+} from "./predictionEngine";
+import { Pattern, SimulatedWeek } from "./types";
+
+/**
+ * Seedable pseudo random number generator (mulberry32), so that simulated
+ * weeks can be reproduced.
+ */
+export function createRng(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Forward simulation of the game's turnip price generation. Each
+ * generate_pattern_* method follows the decompiled code quoted in the
+ * matching Predictor.generate_pattern_* method.
+ */
+export class TurnipSimulator {
+  private random: () => number;
+
+  constructor(seed = Date.now()) {
+    this.random = createRng(seed);
+  }
+
+  private intCeil(val: number) {
+    return Math.trunc(val + 0.99999);
+  }
+
+  private randfloat(a: number, b: number) {
+    return a + (b - a) * this.random();
+  }
+
+  /** Inclusive on both ends, like the game's randint. */
+  private randint(min: number, max: number) {
+    return min + Math.floor(this.random() * (max - min + 1));
+  }
+
+  private randbool() {
+    return this.random() < 0.5;
+  }
+
+  private pick(probabilities: Array<number>): Pattern {
+    let roll = this.random();
+    for (let i = 0; i < probabilities.length; i++) {
+      roll -= probabilities[i];
+      if (roll < 0) {
+        return i;
+      }
+    }
+    return probabilities.length - 1;
+  }
+
+  private generate_pattern_0(sellPrices: Array<number>, basePrice: number) {
+    const decPhaseLen1 = this.randbool() ? 3 : 2;
+    const decPhaseLen2 = 5 - decPhaseLen1;
+    const hiPhaseLen1 = this.randint(0, 6);
+    const hiPhaseLen2and3 = 7 - hiPhaseLen1;
+    const hiPhaseLen3 = this.randint(0, hiPhaseLen2and3 - 1);
+
+    let work = 2;
+    for (let i = 0; i < hiPhaseLen1; i++) {
+      sellPrices[work++] = this.intCeil(this.randfloat(0.9, 1.4) * basePrice);
+    }
+    let rate = this.randfloat(0.8, 0.6);
+    for (let i = 0; i < decPhaseLen1; i++) {
+      sellPrices[work++] = this.intCeil(rate * basePrice);
+      rate -= 0.04;
+      rate -= this.randfloat(0, 0.06);
+    }
+    for (let i = 0; i < hiPhaseLen2and3 - hiPhaseLen3; i++) {
+      sellPrices[work++] = this.intCeil(this.randfloat(0.9, 1.4) * basePrice);
+    }
+    rate = this.randfloat(0.8, 0.6);
+    for (let i = 0; i < decPhaseLen2; i++) {
+      sellPrices[work++] = this.intCeil(rate * basePrice);
+      rate -= 0.04;
+      rate -= this.randfloat(0, 0.06);
+    }
+    for (let i = 0; i < hiPhaseLen3; i++) {
+      sellPrices[work++] = this.intCeil(this.randfloat(0.9, 1.4) * basePrice);
+    }
+  }
+
+  private generate_pattern_1(sellPrices: Array<number>, basePrice: number) {
+    const peakStart = this.randint(3, 9);
+    let rate = this.randfloat(0.9, 0.85);
+    let work = 2;
+    for (; work < peakStart; work++) {
+      sellPrices[work] = this.intCeil(rate * basePrice);
+      rate -= 0.03;
+      rate -= this.randfloat(0, 0.02);
+    }
+    sellPrices[work++] = this.intCeil(this.randfloat(0.9, 1.4) * basePrice);
+    sellPrices[work++] = this.intCeil(this.randfloat(1.4, 2.0) * basePrice);
+    sellPrices[work++] = this.intCeil(this.randfloat(2.0, 6.0) * basePrice);
+    sellPrices[work++] = this.intCeil(this.randfloat(1.4, 2.0) * basePrice);
+    sellPrices[work++] = this.intCeil(this.randfloat(0.9, 1.4) * basePrice);
+    for (; work < 14; work++) {
+      sellPrices[work] = this.intCeil(this.randfloat(0.4, 0.9) * basePrice);
+    }
+  }
+
+  private generate_pattern_2(sellPrices: Array<number>, basePrice: number) {
+    let rate = 0.9;
+    rate -= this.randfloat(0, 0.05);
+    for (let work = 2; work < 14; work++) {
+      sellPrices[work] = this.intCeil(rate * basePrice);
+      rate -= 0.03;
+      rate -= this.randfloat(0, 0.02);
+    }
+  }
+
+  private generate_pattern_3(sellPrices: Array<number>, basePrice: number) {
+    const peakStart = this.randint(2, 9);
+    let rate = this.randfloat(0.9, 0.4);
+    let work = 2;
+    for (; work < peakStart; work++) {
+      sellPrices[work] = this.intCeil(rate * basePrice);
+      rate -= 0.03;
+      rate -= this.randfloat(0, 0.02);
+    }
+    sellPrices[work++] = this.intCeil(this.randfloat(0.9, 1.4) * basePrice);
+    sellPrices[work++] = this.intCeil(this.randfloat(0.9, 1.4) * basePrice);
+    rate = this.randfloat(1.4, 2.0);
+    sellPrices[work++] =
+      this.intCeil(this.randfloat(1.4, rate) * basePrice) - 1;
+    sellPrices[work++] = this.intCeil(rate * basePrice);
+    sellPrices[work++] =
+      this.intCeil(this.randfloat(1.4, rate) * basePrice) - 1;
+    if (work < 14) {
+      rate = this.randfloat(0.9, 0.4);
+      for (; work < 14; work++) {
+        sellPrices[work] = this.intCeil(rate * basePrice);
+        rate -= 0.03;
+        rate -= this.randfloat(0, 0.02);
+      }
+    }
+  }
+
+  /**
+   * Generates one week of prices. Without a `pattern`, it is drawn from the
+   * transition probabilities of `previousPattern` (or the steady state when
+   * that is unknown).
+   */
+  public simulateWeek(
+    options: {
+      pattern?: Pattern;
+      previousPattern?: Pattern;
+      firstBuy?: boolean;
+    } = {}
+  ): SimulatedWeek {
+    const pattern =
+      options.pattern ??
+      (options.firstBuy
+        ? Pattern.SMALL_SPIKE
+        : this.pick(
+            options.previousPattern === undefined
+              ? STEADY_STATE_PROBABILITIES
+              : Object.values(PROBABILITY_MATRIX[options.previousPattern])
+          ));
+    const basePrice = this.randint(90, 110);
+    const sellPrices = [basePrice, basePrice];
+
+    const generate_pattern_fns = [
+      this.generate_pattern_0,
+      this.generate_pattern_1,
+      this.generate_pattern_2,
+      this.generate_pattern_3,
+    ];
+    generate_pattern_fns[pattern].bind(this)(sellPrices, basePrice);
+
+    return { pattern, buyPrice: basePrice, prices: sellPrices };
+  }
+
+  /**
+   * Generates `count` consecutive weeks, each week's pattern following from
+   * the previous one.
+   */
+  public simulateWeeks(
+    count: number,
+    previousPattern?: Pattern
+  ): Array<SimulatedWeek> {
+    const weeks = [];
+    for (let i = 0; i < count; i++) {
+      const week = this.simulateWeek({ previousPattern });
+      weeks.push(week);
+      previousPattern = week.pattern;
+    }
+    return weeks;
+  }
+}
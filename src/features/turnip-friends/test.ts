@@ -1,10 +1,9 @@
 import { Predictor } from "./predictionEngine";
 import { Pattern } from "./types";
 
-const data = [97, 97];
-const firstBuy = true;
+const data = { buyPrice: 97 };
 const previousPattern = Pattern.SMALL_SPIKE;
-let predictor = new Predictor(data, firstBuy);
+let predictor = new Predictor({ ...data, previousPattern });
 const result = predictor.analyzePossibilities();
 
 const now = new Date();
@@ -3,16 +3,168 @@ export interface MinMax {
   max: number;
 }
 
+export type Weekday =
+  | "monday"
+  | "tuesday"
+  | "wednesday"
+  | "thursday"
+  | "friday"
+  | "saturday";
+
+export type HalfDay = "AM" | "PM";
+
+export interface HalfDaySlot {
+  day: Weekday;
+  period: HalfDay;
+}
+
+export interface DayPrices {
+  am?: number;
+  pm?: number;
+}
+
+/**
+ * Prices observed on an island this week. Half-days that haven't been
+ * checked yet are left undefined.
+ */
+export interface TurnipPrices {
+  /** Daisy Mae's Sunday price. */
+  buyPrice?: number;
+  monday?: DayPrices;
+  tuesday?: DayPrices;
+  wednesday?: DayPrices;
+  thursday?: DayPrices;
+  friday?: DayPrices;
+  saturday?: DayPrices;
+}
+
+export interface PredictorInput extends TurnipPrices {
+  /** True if this is the first week the player buys turnips on this island. */
+  firstBuy?: boolean;
+  previousPattern?: Pattern;
+  /**
+   * Probability of each Pattern last week, indexed by pattern number. Takes
+   * precedence over `previousPattern`.
+   */
+  previousPatternProbabilities?: Array<number>;
+}
+
+/** Observed prices for one past week on an island. */
+export interface TurnipWeek extends TurnipPrices {
+  /** ISO date of the week's Sunday. */
+  weekOf: string;
+  firstBuy?: boolean;
+}
+
+export interface IslandHistory {
+  island: string;
+  /** Oldest week first. */
+  weeks: Array<TurnipWeek>;
+}
+
+export interface PredictedPrice extends MinMax {
+  day: Weekday;
+  period: HalfDay;
+}
+
+/**
+ * Discrete price distribution: `probabilities[i]` is the probability of the
+ * price being exactly `start + i`.
+ */
+export interface PriceDistribution {
+  start: number;
+  probabilities: Array<number>;
+}
+
+export interface PredictedRange extends MinMax {
+  /** Only filled in when the engine is asked for distributions. */
+  distribution?: PriceDistribution;
+}
+
+export interface HalfDayForecast extends MinMax {
+  day: Weekday;
+  period: HalfDay;
+  /** Probability-weighted mean price. */
+  expected: number;
+  median: number;
+  p10: number;
+  p90: number;
+  distribution: PriceDistribution;
+}
+
+/**
+ * A single possibility as produced by the engine, with `prices` indexed the
+ * way the game stores them: 0/1 are the buy price, 2-13 are Mon AM - Sat PM.
+ */
+export interface Possibility {
+  weekGuaranteedMinimum: number;
+  weekMax: number;
+  prices: Array<PredictedRange>;
+  patternNumber: number;
+  patternName?: string;
+  probability: number;
+  categoryTotalProbability: number;
+}
+
 export interface PredicationResult {
   weekGuaranteedMinimum: number;
   weekMax: number;
-  prices: Array<MinMax>;
+  buyPrice: MinMax;
+  /** Mon AM through Sat PM. */
+  prices: Array<PredictedPrice>;
   patternNumber: number;
   patternName?: string;
   probability: number;
   categoryTotalProbability: number;
 }
 
+/**
+ * An observed price that fell outside what a pattern allows, as recorded by
+ * the engine. Rates are in the engine's scaled units.
+ */
+export interface RejectedPrice {
+  index: number;
+  min: number;
+  max: number;
+  rateMin: number;
+  rateMax: number;
+}
+
+export interface PatternRejection {
+  day: Weekday;
+  period: HalfDay;
+  price: number;
+  /** Prices the pattern allowed for this half-day. */
+  expectedPrice: MinMax;
+  /** Multiples of the buy price the pattern allowed for this half-day. */
+  rateRange: MinMax;
+}
+
+export interface PatternDiagnosis {
+  patternNumber: Pattern;
+  patternName: string;
+  probability: number;
+  /**
+   * The observed price that ruled out the pattern's last remaining variant,
+   * i.e. the half-day from which the pattern stopped being possible.
+   */
+  rejectedAt?: PatternRejection;
+  /** Set when the pattern was ruled out before looking at any price. */
+  reason?: string;
+}
+
+export interface PredictionDiagnostics {
+  /**
+   * How far outside the predicted ranges prices were allowed to be. Anything
+   * above 0 usually means a price was mistyped. When `noMatch` is set, this
+   * is the largest fudge factor tried rather than one that was used.
+   */
+  fudgeFactor: number;
+  /** True when no pattern matches the prices, even with the largest fudge factor. */
+  noMatch: boolean;
+  patterns: Array<PatternDiagnosis>;
+}
+
 export enum Pattern {
   FLUCTUATING = 0,
   LARGE_SPIKE = 1,
@@ -23,3 +175,75 @@ export enum Pattern {
 export type NumberIndexedObject = {
   [key: number]: any;
 };
+
+export type RiskPreference = "averse" | "neutral" | "seeking";
+
+export interface SaleDecisionInput {
+  prices: PredictorInput;
+  /** The half-day the player is deciding in; its price must be known. */
+  day: Weekday;
+  period: HalfDay;
+  riskPreference?: RiskPreference;
+}
+
+export interface SaleOption {
+  expectedValue: number;
+  probabilityBelowBuyPrice: number;
+}
+
+export interface HoldOption extends SaleOption {
+  /** The future half-day with the best outlook for the risk preference. */
+  day: Weekday;
+  period: HalfDay;
+}
+
+export interface SaleRecommendation {
+  action: "sell" | "hold";
+  sellNow: SaleOption;
+  /** Undefined when there is no later half-day to sell on. */
+  hold?: HoldOption;
+}
+
+export interface SimulatedWeek {
+  pattern: Pattern;
+  buyPrice: number;
+  /** Engine layout: 0/1 are the buy price, 2-13 are Mon AM - Sat PM. */
+  prices: Array<number>;
+}
+
+/** What one island in a group has reported this week. */
+export interface IslandPrices {
+  island: string;
+  prices: TurnipPrices;
+  firstBuy?: boolean;
+  /** Past weeks on the island, oldest first. */
+  history?: Array<TurnipWeek>;
+  /** ISO date of this week's Sunday, to account for gaps in `history`. */
+  weekOf?: string;
+}
+
+export interface IslandOutlook {
+  island: string;
+  /** The most likely pattern this week. */
+  patternName: string;
+  patternProbability: number;
+  /** Probability of a spike peaking between now and the end of tomorrow. */
+  spikeProbability: number;
+  /** Expected highest price from now until the end of the week. */
+  expectedMax: number;
+  /** Earliest and latest half-day a spike can still peak on. */
+  peakWindow?: { start: HalfDaySlot; end: HalfDaySlot };
+}
+
+/** An island whose prices couldn't be predicted, and why. */
+export interface IslandFailure {
+  island: string;
+  error: string;
+}
+
+export interface IslandRanking {
+  bySpikeProbability: Array<IslandOutlook>;
+  byExpectedMax: Array<IslandOutlook>;
+  /** Islands left out of the ranking, e.g. because of a mistyped price. */
+  failed: Array<IslandFailure>;
+}
@@ -0,0 +1,90 @@
+import { HourRange, Schedule } from "../types";
+
+const ALL_DAY = "All day";
+const NOT_AVAILABLE = "NA";
+const HOURS_IN_DAY = 24;
+
+// Matches a single window such as "4 AM – 9 PM". The source data mixes regular
+// and non-breaking spaces around the dash, and occasionally uses a hyphen.
+const RANGE_PATTERN = /^(\d{1,2})\s*(AM|PM)\s*[–-]\s*(\d{1,2})\s*(AM|PM)$/i;
+
+function toHour(hour: string, period: string): number | null {
+  const value = parseInt(hour, 10);
+  if (value < 1 || value > 12) {
+    return null;
+  }
+
+  const isPm = period.toUpperCase() === "PM";
+  return (value % 12) + (isPm ? 12 : 0);
+}
+
+function parseRange(input: string): HourRange | null {
+  const match = RANGE_PATTERN.exec(input.trim());
+  if (!match) {
+    return null;
+  }
+
+  const start = toHour(match[1], match[2]);
+  const end = toHour(match[3], match[4]);
+  if (start === null || end === null || start === end) {
+    return null;
+  }
+
+  return { start, end };
+}
+
+/**
+ * Expands hour ranges into a 24 slot mask where index `h` is true when the
+ * critter can be found between h:00 and h:59. Ranges with `end < start` wrap
+ * past midnight.
+ */
+export function toHourMask(hours: HourRange[]): boolean[] {
+  const mask = new Array<boolean>(HOURS_IN_DAY).fill(false);
+  for (const { start, end } of hours) {
+    const length = (end - start + HOURS_IN_DAY) % HOURS_IN_DAY || HOURS_IN_DAY;
+    for (let i = 0; i < length; i++) {
+      mask[(start + i) % HOURS_IN_DAY] = true;
+    }
+  }
+  return mask;
+}
+
+/**
+ * Parses a raw availability cell ("4 AM – 9 PM", "All day", "NA" or several
+ * windows separated by ";") into hour ranges.
+ * Returns null when the value can't be understood.
+ */
+export function parseHourRanges(input: string): HourRange[] | null {
+  const value = input.trim();
+  if (value === NOT_AVAILABLE) {
+    return [];
+  }
+  if (value === ALL_DAY) {
+    return [{ start: 0, end: HOURS_IN_DAY }];
+  }
+
+  const ranges: HourRange[] = [];
+  for (const part of value.split(";")) {
+    const range = parseRange(part);
+    if (!range) {
+      return null;
+    }
+    ranges.push(range);
+  }
+  return ranges;
+}
+
+export function parseSchedule(month: string, availability: string): Schedule {
+  const hours = parseHourRanges(availability);
+  if (!hours) {
+    throw new Error(`Unrecognized availability "${availability}"`);
+  }
+
+  return {
+    month,
+    availability,
+    isAvailable: hours.length > 0,
+    hours,
+    hourMask: toHourMask(hours),
+  };
+}
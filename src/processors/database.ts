@@ -0,0 +1,214 @@
+import { Database } from "bun:sqlite";
+import { unlink } from "node:fs/promises";
+import { Fish, Insect, Price, SeaCreature } from "../types";
+import { DatabaseContents } from "./types";
+
+const SCHEMA = `
+CREATE TABLE critters (
+  kind TEXT NOT NULL,
+  id INTEGER NOT NULL,
+  internal_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  sell_amount INTEGER NOT NULL,
+  location TEXT,
+  shadow TEXT,
+  catch_difficulty TEXT,
+  vision TEXT,
+  movement_speed TEXT,
+  weather TEXT,
+  catch_phrase TEXT,
+  description TEXT NOT NULL,
+  image_url TEXT NOT NULL,
+  icon_url TEXT,
+  PRIMARY KEY (kind, id)
+);
+
+-- One row per month a critter can be found in; months it's absent are left out.
+CREATE TABLE schedules (
+  id INTEGER PRIMARY KEY,
+  critter_kind TEXT NOT NULL,
+  critter_id INTEGER NOT NULL,
+  hemisphere TEXT NOT NULL CHECK (hemisphere IN ('NH', 'SH')),
+  month TEXT NOT NULL,
+  availability TEXT NOT NULL,
+  FOREIGN KEY (critter_kind, critter_id) REFERENCES critters (kind, id)
+);
+
+CREATE TABLE schedule_hours (
+  schedule_id INTEGER NOT NULL REFERENCES schedules (id),
+  start_hour INTEGER NOT NULL,
+  end_hour INTEGER NOT NULL
+);
+
+CREATE TABLE fossils (
+  id INTEGER PRIMARY KEY,
+  internal_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  sell_amount INTEGER NOT NULL,
+  fossil_group TEXT NOT NULL,
+  museum_room TEXT NOT NULL,
+  source TEXT,
+  description TEXT NOT NULL,
+  image_url TEXT NOT NULL
+);
+
+-- Prices are NULL for songs that can't be bought or sold ("NFS") or have no
+-- price in the source data ("NA"); the JSON output keeps the two apart.
+CREATE TABLE music (
+  internal_id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  sell_amount INTEGER,
+  buy_amount INTEGER,
+  source TEXT NOT NULL,
+  source_notes TEXT NOT NULL,
+  mood TEXT,
+  is_secret INTEGER NOT NULL,
+  season_event TEXT,
+  is_event_exclusive INTEGER NOT NULL,
+  catalog TEXT NOT NULL,
+  version_added TEXT NOT NULL,
+  is_unlocked INTEGER NOT NULL,
+  filename TEXT NOT NULL,
+  framed_image_url TEXT NOT NULL,
+  album_image_url TEXT NOT NULL
+);
+
+CREATE INDEX critters_name ON critters (name);
+CREATE INDEX schedules_critter ON schedules (critter_kind, critter_id);
+CREATE INDEX schedules_month ON schedules (month);
+CREATE INDEX fossils_name ON fossils (name);
+CREATE INDEX music_name ON music (name);
+`;
+
+function priceOrNull(price: Price) {
+  return typeof price === "number" ? price : null;
+}
+
+/**
+ * Inserts critters along with their schedules, numbering schedules from
+ * `firstScheduleId`. Returns the next free schedule id.
+ */
+function insertCritters(
+  db: Database,
+  kind: string,
+  critters: Array<Fish | Insect | SeaCreature>,
+  firstScheduleId: number
+) {
+  let nextScheduleId = firstScheduleId;
+  const insertCritter = db.prepare(
+    `INSERT INTO critters VALUES (
+      $kind, $id, $internalId, $name, $sellAmount, $location, $shadow,
+      $catchDifficulty, $vision, $movementSpeed, $weather, $catchPhrase,
+      $description, $imageUrl, $iconUrl
+    )`
+  );
+  const insertSchedule = db.prepare(
+    "INSERT INTO schedules VALUES (?, ?, ?, ?, ?, ?)"
+  );
+  const insertHours = db.prepare("INSERT INTO schedule_hours VALUES (?, ?, ?)");
+
+  for (const critter of critters) {
+    insertCritter.run({
+      $kind: kind,
+      $id: critter.id,
+      $internalId: critter.internalId,
+      $name: critter.name,
+      $sellAmount: critter.sellAmount,
+      $location: critter.where ?? null,
+      $shadow: "shadow" in critter ? critter.shadow : null,
+      $catchDifficulty:
+        "catchDifficulty" in critter ? critter.catchDifficulty : null,
+      $vision: "vision" in critter ? critter.vision : null,
+      $movementSpeed: "movementSpeed" in critter ? critter.movementSpeed : null,
+      $weather: "weather" in critter ? critter.weather : null,
+      $catchPhrase: critter.catchPhrase ?? null,
+      $description: critter.description,
+      $imageUrl: critter.imageUrl,
+      $iconUrl: critter.iconUrl ?? null,
+    });
+
+    const hemispheres = [
+      ["NH", critter.availability?.northernHemisphere ?? []],
+      ["SH", critter.availability?.southernHemisphere ?? []],
+    ] as const;
+    for (const [hemisphere, schedules] of hemispheres) {
+      for (const schedule of schedules.filter((it) => it.isAvailable)) {
+        const scheduleId = nextScheduleId++;
+        insertSchedule.run(
+          scheduleId,
+          kind,
+          critter.id,
+          hemisphere,
+          schedule.month,
+          schedule.availability
+        );
+        for (const hours of schedule.hours) {
+          insertHours.run(scheduleId, hours.start, hours.end);
+        }
+      }
+    }
+  }
+  return nextScheduleId;
+}
+
+/**
+ * Writes the critters, fossils and songs to a single SQLite database,
+ * replacing any database already at `path`.
+ */
+export async function writeDatabase(path: string, contents: DatabaseContents) {
+  await unlink(path).catch(() => undefined);
+
+  const db = new Database(path);
+  try {
+    db.exec(SCHEMA);
+    db.transaction(() => {
+      let scheduleId = 1;
+      scheduleId = insertCritters(db, "fish", contents.fishes, scheduleId);
+      scheduleId = insertCritters(db, "insect", contents.insects, scheduleId);
+      insertCritters(db, "sea_creature", contents.seaCreatures, scheduleId);
+
+      const insertFossil = db.prepare(
+        "INSERT INTO fossils VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)"
+      );
+      for (const fossil of contents.fossils) {
+        insertFossil.run(
+          fossil.id,
+          fossil.internalId,
+          fossil.name,
+          fossil.sellAmount,
+          fossil.fossilGroup,
+          fossil.museumRoom,
+          fossil.source,
+          fossil.description,
+          fossil.imageUrl
+        );
+      }
+
+      const insertSong = db.prepare(
+        "INSERT INTO music VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)"
+      );
+      for (const song of contents.music) {
+        insertSong.run(
+          song.internalId,
+          song.name,
+          priceOrNull(song.sellAmount),
+          priceOrNull(song.buyAmount),
+          song.source,
+          song.sourceNotes,
+          song.mood ?? null,
+          song.isSecret,
+          song.seasonEvent ?? null,
+          song.isEventExclusive,
+          song.catalog,
+          song.versionAdded,
+          song.isUnlocked,
+          song.filename,
+          song.framedImageUrl,
+          song.albumImageUrl
+        );
+      }
+    })();
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,29 @@
+import { Art } from "../../types";
+import { ART_TYPES } from "../../validation/schemas";
+import { DatasetDefinition } from "../types";
+
+export const artDataset: DatasetDefinition<Art> = {
+  input: "art.csv",
+  output: "art.json",
+  outputKey: "records",
+  label: "art pieces",
+  fields: {
+    internalId: (row) => row.string("Internal ID"),
+    name: (row) => row.string("Name"),
+    type: (row) => row.oneOf("Type", ART_TYPES),
+    buyAmount: (row) => row.price("Buy"),
+    sellAmount: (row) => row.price("Sell"),
+    realArtworkTitle: (row) => row.string("Real Artwork Title"),
+    artist: (row) => row.string("Artist"),
+    description: (row) => row.string("Description"),
+    museumRoom: (row) => row.string("Museum"),
+    hasFake: (row) => row.boolean("Has Fake"),
+    fakeDifference: (row) =>
+      row.boolean("Has Fake") ? row.string("Fake Difference") : undefined,
+    genuineImageUrl: (row) => row.image("FtrIcon", "Genuine Filename"),
+    fakeImageUrl: (row) =>
+      row.boolean("Has Fake")
+        ? row.image("FtrIcon", "Fake Filename")
+        : undefined,
+  },
+};
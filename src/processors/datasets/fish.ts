@@ -0,0 +1,32 @@
+import { Fish } from "../../types";
+import {
+  CATCH_DIFFICULTIES,
+  SHADOW_SIZES,
+  VISIONS,
+} from "../../validation/schemas";
+import { DatasetDefinition } from "../types";
+
+export const fishDataset: DatasetDefinition<Fish> = {
+  input: "fish.csv",
+  output: "fish.json",
+  outputKey: "fishes",
+  label: "fishes",
+  fields: {
+    id: (row) => row.integer("id"),
+    availability: (row) => ({
+      northernHemisphere: row.schedules("NH"),
+      southernHemisphere: row.schedules("SH"),
+    }),
+    description: (row) => row.string("Description"),
+    catchDifficulty: (row) => row.oneOf("Catch Difficulty", CATCH_DIFFICULTIES),
+    catchPhrase: (row) => row.string("Catch phrase"),
+    iconUrl: (row) => row.image("MenuIcon", "Icon Filename"),
+    imageUrl: (row) => row.image("BookFishIcon", "Critterpedia Filename"),
+    internalId: (row) => row.string("Internal ID"),
+    name: (row) => row.string("Name"),
+    sellAmount: (row) => row.integer("Sell"),
+    shadow: (row) => row.oneOf("Shadow", SHADOW_SIZES),
+    where: (row) => row.string("Where/How"),
+    vision: (row) => row.oneOf("Vision", VISIONS),
+  },
+};
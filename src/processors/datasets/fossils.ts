@@ -0,0 +1,51 @@
+import { Fossil, FossilGroup } from "../../types";
+import { DatasetDefinition } from "../types";
+
+/**
+ * Groups fossil parts by their fossil group, e.g. the T. Rex skull, torso and
+ * tail. Standalone fossils end up in a group of their own.
+ */
+export function groupFossils(fossils: Fossil[]): FossilGroup[] {
+  const groups = new Map<string, FossilGroup>();
+  for (const fossil of fossils) {
+    let group = groups.get(fossil.fossilGroup);
+    if (!group) {
+      group = {
+        name: fossil.fossilGroup,
+        museumRoom: fossil.museumRoom,
+        parts: [],
+        totalSellAmount: 0,
+      };
+      groups.set(fossil.fossilGroup, group);
+    }
+
+    group.parts.push({
+      internalId: fossil.internalId,
+      name: fossil.name,
+      sellAmount: fossil.sellAmount,
+    });
+    group.totalSellAmount += fossil.sellAmount;
+  }
+
+  return Array.from(groups.values());
+}
+
+export const fossilDataset: DatasetDefinition<Fossil> = {
+  input: "fossils.csv",
+  output: "fossils.json",
+  outputKey: "records",
+  label: "fossils",
+  fields: {
+    // Fossils have no Critterpedia-style number, so the internal ID doubles as id.
+    id: (row) => row.integer("Internal ID"),
+    description: (row) => row.string("Description"),
+    imageUrl: (row) => row.image("FtrIcon", "Filename"),
+    internalId: (row) => row.string("Internal ID"),
+    name: (row) => row.string("Name"),
+    sellAmount: (row) => row.integer("Sell"),
+    fossilGroup: (row) => row.string("Fossil Group"),
+    museumRoom: (row) => row.string("Museum"),
+    source: (row) => row.string("Source"),
+  },
+  views: (records) => ({ groups: groupFossils(records) }),
+};
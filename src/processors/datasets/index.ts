@@ -0,0 +1,31 @@
+import { AnyDatasetDefinition, DatasetRegistry } from "../types";
+import { artDataset } from "./art";
+import { fishDataset } from "./fish";
+import { fossilDataset } from "./fossils";
+import { insectDataset } from "./insects";
+import { musicDataset } from "./music";
+import { seaCreatureDataset } from "./seaCreatures";
+import { villagerDataset } from "./villagers";
+
+export {
+  artDataset,
+  fishDataset,
+  fossilDataset,
+  insectDataset,
+  musicDataset,
+  seaCreatureDataset,
+  villagerDataset,
+};
+
+export const datasetRegistry: DatasetRegistry = {
+  fishes: fishDataset,
+  insects: insectDataset,
+  seaCreatures: seaCreatureDataset,
+  fossils: fossilDataset,
+  music: musicDataset,
+  villagers: villagerDataset,
+  art: artDataset,
+};
+
+/** Every dataset, in the order they're processed. */
+export const datasets: AnyDatasetDefinition[] = Object.values(datasetRegistry);
@@ -0,0 +1,26 @@
+import { Insect } from "../../types";
+import { WEATHERS } from "../../validation/schemas";
+import { DatasetDefinition } from "../types";
+
+export const insectDataset: DatasetDefinition<Insect> = {
+  input: "insects.csv",
+  output: "insects.json",
+  outputKey: "insects",
+  label: "insects",
+  fields: {
+    id: (row) => row.integer("id"),
+    availability: (row) => ({
+      northernHemisphere: row.schedules("NH"),
+      southernHemisphere: row.schedules("SH"),
+    }),
+    description: (row) => row.string("Description"),
+    catchPhrase: (row) => row.string("Catch phrase"),
+    iconUrl: (row) => row.image("MenuIcon", "Icon Filename"),
+    imageUrl: (row) => row.image("BookInsectIcon", "Critterpedia Filename"),
+    internalId: (row) => row.string("Internal ID"),
+    name: (row) => row.string("Name"),
+    sellAmount: (row) => row.integer("Sell"),
+    where: (row) => row.string("Where/How"),
+    weather: (row) => row.oneOf("Weather", WEATHERS),
+  },
+};
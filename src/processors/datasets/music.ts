@@ -0,0 +1,46 @@
+import { Music } from "../../types";
+import { KK_MOODS } from "../../validation/schemas";
+import { Row } from "../row";
+import { DatasetDefinition } from "../types";
+
+// e.g. Possible song K.K. will play when choosing "Laid-back." as your mood
+const MOOD_PATTERN = /choosing "(.+)" as your mood/;
+const SECRET_SONG_NOTE = "Hidden song - only by request";
+
+function parseMood(row: Row) {
+  const match = MOOD_PATTERN.exec(row.string("Source Notes"));
+  if (!match) {
+    return undefined;
+  }
+
+  const mood = KK_MOODS.find((mood) => mood === match[1]);
+  if (!mood) {
+    throw row.error("Source Notes", `Unknown K.K. mood "${match[1]}"`);
+  }
+  return mood;
+}
+
+export const musicDataset: DatasetDefinition<Music> = {
+  input: "music.csv",
+  output: "music.json",
+  outputKey: "records",
+  label: "songs",
+  fields: {
+    internalId: (row) => row.string("Internal ID"),
+    name: (row) => row.string("Name"),
+    sellAmount: (row) => row.price("Sell"),
+    buyAmount: (row) => row.price("Buy"),
+    framedImageUrl: (row) => row.image("FtrIcon", "Filename"),
+    albumImageUrl: (row) => row.image("Audio", "Filename"),
+    source: (row) => row.string("Source"),
+    sourceNotes: (row) => row.string("Source Notes"),
+    mood: parseMood,
+    isSecret: (row) => row.string("Source Notes") === SECRET_SONG_NOTE,
+    seasonEvent: (row) => row.optionalString("Season/Event"),
+    isEventExclusive: (row) => row.string("Season/Event Exclusive") === "Yes",
+    catalog: (row) => row.string("Catalog"),
+    versionAdded: (row) => row.string("Version Added"),
+    isUnlocked: (row) => row.boolean("Unlocked?"),
+    filename: (row) => row.string("Filename"),
+  },
+};
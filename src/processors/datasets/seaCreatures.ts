@@ -0,0 +1,26 @@
+import { SeaCreature } from "../../types";
+import { MOVEMENT_SPEEDS, SHADOW_SIZES } from "../../validation/schemas";
+import { DatasetDefinition } from "../types";
+
+export const seaCreatureDataset: DatasetDefinition<SeaCreature> = {
+  input: "sea-creatures.csv",
+  output: "sea-creatures.json",
+  outputKey: "records",
+  label: "sea creatures",
+  fields: {
+    id: (row) => row.integer("id"),
+    availability: (row) => ({
+      northernHemisphere: row.schedules("NH"),
+      southernHemisphere: row.schedules("SH"),
+    }),
+    description: (row) => row.string("Description"),
+    catchPhrase: (row) => row.string("Catch phrase"),
+    iconUrl: (row) => row.image("MenuIcon", "Icon Filename"),
+    imageUrl: (row) => row.image("BookDiveFishIcon", "Critterpedia Filename"),
+    internalId: (row) => row.string("Internal ID"),
+    name: (row) => row.string("Name"),
+    sellAmount: (row) => row.integer("Sell"),
+    shadow: (row) => row.oneOf("Shadow", SHADOW_SIZES),
+    movementSpeed: (row) => row.oneOf("Movement Speed", MOVEMENT_SPEEDS),
+  },
+};
@@ -0,0 +1,54 @@
+import { describe, expect, test } from "bun:test";
+import { loadDataset } from "..";
+import { Villager } from "../../types";
+import { Row } from "../row";
+import { musicDataset } from "./music";
+import { linkFavoriteSongs } from "./villagers";
+
+const birthday = (value: string) =>
+  new Row({ Birthday: value }, 0).monthDay("Birthday");
+
+describe("birthdays", () => {
+  test("parse day and month", () => {
+    expect(birthday("22-Sep")).toEqual({ month: 9, day: 22 });
+    expect(birthday("1-Jan")).toEqual({ month: 1, day: 1 });
+    expect(birthday("31-Dec")).toEqual({ month: 12, day: 31 });
+  });
+
+  test("accept 29 February", () => {
+    expect(birthday("29-Feb")).toEqual({ month: 2, day: 29 });
+  });
+
+  test("reject days the month doesn't have", () => {
+    expect(() => birthday("31-Feb")).toThrow(
+      'Row 2, column "Birthday": Expected a date like "27-Jan", got "31-Feb"'
+    );
+    expect(() => birthday("31-Apr")).toThrow();
+    expect(() => birthday("0-Jan")).toThrow();
+  });
+
+  test("reject other formats", () => {
+    expect(() => birthday("Sep-22")).toThrow();
+    expect(() => birthday("22-September")).toThrow();
+    expect(() => birthday("22-Foo")).toThrow();
+    expect(() => birthday("")).toThrow();
+  });
+});
+
+describe("linkFavoriteSongs", () => {
+  const villager = (favoriteSong: string) =>
+    ({ name: "Ankha", favoriteSong } as Villager);
+
+  test("links the favorite song to its music record", async () => {
+    const songs = await loadDataset(musicDataset);
+    const [linked] = await linkFavoriteSongs([villager("Surfin' K.K.")]);
+
+    const song = songs.find((it) => it.internalId === linked.favoriteSongId);
+    expect(song?.name).toBe("Surfin' K.K.");
+  });
+
+  test("leaves the id out when no song has that name", async () => {
+    const [linked] = await linkFavoriteSongs([villager("Not A Song")]);
+    expect(linked.favoriteSongId).toBeUndefined();
+  });
+});
@@ -0,0 +1,42 @@
+import { loadDataset } from "..";
+import { Villager } from "../../types";
+import { GENDERS, HOBBIES, PERSONALITIES } from "../../validation/schemas";
+import { DatasetDefinition } from "../types";
+import { musicDataset } from "./music";
+
+/**
+ * Fills in `favoriteSongId` by matching the favorite song's name against the
+ * music dataset.
+ */
+export async function linkFavoriteSongs(villagers: Villager[]) {
+  const songs = await loadDataset(musicDataset);
+  const songIds = new Map(songs.map((song) => [song.name, song.internalId]));
+
+  return villagers.map((villager) => ({
+    ...villager,
+    favoriteSongId: songIds.get(villager.favoriteSong),
+  }));
+}
+
+export const villagerDataset: DatasetDefinition<Villager> = {
+  input: "villagers.csv",
+  output: "villagers.json",
+  outputKey: "records",
+  label: "villagers",
+  key: "uniqueEntryId",
+  fields: {
+    uniqueEntryId: (row) => row.string("Unique Entry ID"),
+    name: (row) => row.string("Name"),
+    species: (row) => row.string("Species"),
+    personality: (row) => row.oneOf("Personality", PERSONALITIES),
+    gender: (row) => row.oneOf("Gender", GENDERS),
+    birthday: (row) => row.monthDay("Birthday"),
+    catchPhrase: (row) => row.string("Catchphrase"),
+    hobby: (row) => row.oneOf("Hobby", HOBBIES),
+    favoriteSong: (row) => row.string("Favorite Song"),
+    iconUrl: (row) => row.image("NpcIcon", "Icon Filename"),
+    photoUrl: (row) => row.image("NpcBromide", "Photo Filename"),
+    houseImageUrl: (row) => row.image("NpcHouse", "House Filename"),
+  },
+  resolve: linkFavoriteSongs,
+};
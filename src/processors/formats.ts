@@ -0,0 +1,105 @@
+import { MONTHS, Schedule } from "../types";
+import { OutputFormat } from "./types";
+
+export const OUTPUT_FORMATS: OutputFormat[] = [
+  "json",
+  "ndjson",
+  "csv",
+  "sqlite",
+];
+
+type FlatValue = string | number | boolean;
+
+/**
+ * Parses a comma-separated list of formats, e.g. "json,csv". Throws on
+ * formats that don't exist.
+ */
+export function parseOutputFormats(value: string): OutputFormat[] {
+  const formats = value
+    .split(",")
+    .map((format) => format.trim())
+    .filter((format) => format !== "");
+  const unknown = formats.filter(
+    (format) => !OUTPUT_FORMATS.includes(format as OutputFormat)
+  );
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown output format ${unknown.join(
+        ", "
+      )}, expected one of ${OUTPUT_FORMATS.join(", ")}`
+    );
+  }
+  return formats as OutputFormat[];
+}
+
+export function toNdjson(records: unknown[]): string {
+  return records.map((record) => `${JSON.stringify(record)}\n`).join("");
+}
+
+/** Schedules become one column per month, named like the input CSVs. */
+function flattenSchedules(
+  flat: Record<string, FlatValue>,
+  prefix: string,
+  schedules: Schedule[]
+) {
+  for (const month of MONTHS) {
+    const schedule = schedules.find((it) => it.month === month);
+    flat[`${prefix} ${month}`] = schedule?.availability ?? "";
+  }
+}
+
+function flattenInto(
+  flat: Record<string, FlatValue>,
+  prefix: string,
+  value: unknown
+) {
+  if (value === undefined || value === null) {
+    return;
+  }
+  if (Array.isArray(value)) {
+    flat[prefix] = value.every((it) => typeof it !== "object")
+      ? value.join("; ")
+      : JSON.stringify(value);
+  } else if (typeof value === "object") {
+    for (const [key, nested] of Object.entries(value)) {
+      flattenInto(flat, prefix ? `${prefix}.${key}` : key, nested);
+    }
+  } else {
+    flat[prefix] = value as FlatValue;
+  }
+}
+
+/**
+ * Flattens a record into a single row: nested objects get dotted column
+ * names, and `availability` is expanded into "NH Jan" ... "SH Dec" columns.
+ */
+export function flattenRecord(record: object): Record<string, FlatValue> {
+  const flat: Record<string, FlatValue> = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (key === "availability" && value) {
+      flattenSchedules(flat, "NH", value.northernHemisphere);
+      flattenSchedules(flat, "SH", value.southernHemisphere);
+    } else {
+      flattenInto(flat, key, value);
+    }
+  }
+  return flat;
+}
+
+function escapeCsv(value: FlatValue | undefined) {
+  const text = value === undefined ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Writes flattened records as CSV. Columns are every field used by any
+ * record, in the order they're first seen.
+ */
+export function toCsv(records: object[]): string {
+  const rows = records.map(flattenRecord);
+  const columns = Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+
+  return [columns, ...rows.map((row) => columns.map((column) => row[column]))]
+    .map((values) => `${values.map(escapeCsv).join(",")}\n`)
+    .join("");
+}
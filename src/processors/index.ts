@@ -1,152 +1,77 @@
 import { parse } from "csv-parse/sync";
-import { Fish, Fossil, Insect, Music, Schedule, SeaCreature } from "../types";
-
-function camelize(input: string) {
-  return input
-    .replace(/[^a-z ]/gi, "")
-    .replace(/(?:^\w|[A-Z]|\b\w|\s+)/g, function (match, index) {
-      if (+match === 0) return ""; // or if (/\s+/.test(match)) for white spaces
-      return index === 0 ? match.toLowerCase() : match.toUpperCase();
-    });
-}
-
-function parseAvailability(data: any, startsWith: "nH" | "sH"): Schedule[] {
-  return Object.keys(data)
-    .filter((k: string) => k.startsWith(startsWith))
-    .map((key: string) => {
-      return {
-        month: key.substring(2, key.length),
-        availability: data[key],
-      } as Schedule;
-    });
-}
-
-async function parseCsv(fileName: string) {
-  const fishCsv = Bun.file(`data/input/${fileName}`);
-  return parse(await fishCsv.text(), {
-    columns: (header) => header.map((column: string) => camelize(column)),
+import { toCsv, toNdjson } from "./formats";
+import { Row } from "./row";
+import { DatasetDefinition, FieldMapping, OutputFormat } from "./types";
+
+async function parseCsv(
+  fileName: string
+): Promise<Array<Record<string, string>>> {
+  const csv = Bun.file(`data/input/${fileName}`);
+  return parse(await csv.text(), {
+    columns: true,
     skip_empty_lines: true,
   });
 }
 
-export async function processFishes() {
-  const parsedData = await parseCsv("fish.csv");
-  const fishes = parsedData.map((fishData: any) => {
-    return {
-      id: fishData.id,
-      availability: {
-        northernHemisphere: parseAvailability(fishData, "nH"),
-        southernHemisphere: parseAvailability(fishData, "sH"),
-      },
-      description: fishData.description,
-      catchDifficulty: fishData.catchDifficulty,
-      catchPhrase: fishData.catchPhrase,
-      iconUrl: `https://acnhcdn.com/latest/MenuIcon/${fishData.iconFilename}.png`,
-      imageUrl: `https://acnhcdn.com/latest/BookFishIcon/${fishData.critterpediaFilename}.png`,
-      internalId: fishData.internalID,
-      name: fishData.name,
-      sellAmount: fishData.sell,
-      shadow: fishData.shadow,
-      where: fishData.whereHow,
-      vision: fishData.vision,
-    } as Fish;
-  });
-
-  await Bun.write("data/output/fish.json", JSON.stringify({ fishes }));
-
-  console.log(`Processed ${fishes.length} fishes`);
+export function mapRecord<T>(
+  definition: DatasetDefinition<T>,
+  data: Record<string, string>,
+  index: number
+): T {
+  const row = new Row(data, index);
+  const record: Partial<T> = {};
+  const mappings = Object.entries(definition.fields) as Array<
+    [keyof T, FieldMapping<T[keyof T]>]
+  >;
+  for (const [field, mapping] of mappings) {
+    record[field] = mapping(row);
+  }
+  // FieldMappings has a mapping for every field that can't be undefined.
+  return record as T;
 }
 
-export async function processInsects() {
-  const parsedData = await parseCsv("insects.csv");
-  const insects = parsedData.map((insectData: any) => {
-    return {
-      id: insectData.id,
-      availability: {
-        northernHemisphere: parseAvailability(insectData, "nH"),
-        southernHemisphere: parseAvailability(insectData, "sH"),
-      },
-      description: insectData.description,
-      catchPhrase: insectData.catchPhrase,
-      iconUrl: `https://acnhcdn.com/latest/MenuIcon/${insectData.iconFilename}.png`,
-      imageUrl: `https://acnhcdn.com/latest/BookInsectIcon/${insectData.critterpediaFilename}.png`,
-      internalId: insectData.internalID,
-      name: insectData.name,
-      sellAmount: insectData.sell,
-      where: insectData.whereHow,
-      weather: insectData.weather,
-    } as Insect;
-  });
-
-  await Bun.write("data/output/insects.json", JSON.stringify({ insects }));
-
-  console.log(`Processed ${insects.length} insects`);
-}
-
-export async function processSeaCreatures() {
-  const parsedData = await parseCsv("sea-creatures.csv");
-  const records = parsedData.map((data: any) => {
-    return {
-      id: data.id,
-      availability: {
-        northernHemisphere: parseAvailability(data, "nH"),
-        southernHemisphere: parseAvailability(data, "sH"),
-      },
-      description: data.description,
-      catchPhrase: data.catchPhrase,
-      iconUrl: `https://acnhcdn.com/latest/MenuIcon/${data.iconFilename}.png`,
-      imageUrl: `https://acnhcdn.com/latest/BookDiveFishIcon/${data.critterpediaFilename}.png`,
-      internalId: data.internalID,
-      name: data.name,
-      sellAmount: data.sell,
-      shadow: data.shadow,
-      movementSpeed: data.movementSpeed,
-    } as SeaCreature;
-  });
-
-  await Bun.write(
-    "data/output/sea-creatures.json",
-    JSON.stringify({ records })
+/**
+ * Parses a dataset's CSV and maps every row through the declared fields,
+ * without writing anything.
+ */
+export async function loadDataset<T>(
+  definition: DatasetDefinition<T>
+): Promise<T[]> {
+  const parsedData = await parseCsv(definition.input);
+  const records = parsedData.map((data, index) =>
+    mapRecord(definition, data, index)
   );
 
-  console.log(`Processed ${records.length} sea creatures`);
+  return definition.resolve ? definition.resolve(records) : records;
 }
 
-export async function processFossils() {
-  const parsedData = await parseCsv("fossils.csv");
-  const records = parsedData.map((data: any) => {
-    return {
-      description: data.description,
-      imageUrl: `https://acnhcdn.com/latest/FtrIcon/${data.image}.png`,
-      internalId: data.internalID,
-      name: data.name,
-      sellAmount: data.sell,
-      fossilGroup: data.fossilGroup,
-    } as Fossil;
-  });
-
-  await Bun.write("data/output/fossils.json", JSON.stringify({ records }));
-
-  console.log(`Processed ${records.length} fossils`);
-}
-
-export async function processMusic() {
-  const parsedData = await parseCsv("music.csv");
-  const records = parsedData.map((data: any) => {
-    return {
-      internalId: data.internalID,
-      name: data.name,
-      sellAmount: data.sell,
-      buyAmount: data.buyAmount,
-      framedImageUrl: `https://acnhcdn.com/latest/FtrIcon/${data.framedImage}.png`,
-      albumImageUrl: `https://acnhcdn.com/latest/Audio/${data.albumImage}.png`,
-      source: data.source,
-      sourceNotes: data.sourceNotes,
-      catalog: data.catalog,
-    } as Music;
-  });
-
-  await Bun.write("data/output/music.json", JSON.stringify({ records }));
-
-  console.log(`Processed ${records.length} songs`);
+/**
+ * Runs a dataset definition: loads its records and writes them to
+ * data/output in each of the given formats. SQLite is written separately for
+ * all datasets at once, see writeDatabase.
+ */
+export async function processDataset<T>(
+  definition: DatasetDefinition<T>,
+  formats: OutputFormat[] = ["json"]
+): Promise<T[]> {
+  const records = await loadDataset(definition);
+  const basePath = `data/output/${definition.output.replace(/\.json$/, "")}`;
+
+  if (formats.includes("json")) {
+    await Bun.write(
+      `data/output/${definition.output}`,
+      JSON.stringify({
+        [definition.outputKey]: records,
+        ...definition.views?.(records),
+      })
+    );
+  }
+  if (formats.includes("ndjson")) {
+    await Bun.write(`${basePath}.ndjson`, toNdjson(records));
+  }
+  if (formats.includes("csv")) {
+    await Bun.write(`${basePath}.csv`, toCsv(records as object[]));
+  }
+
+  return records;
 }
@@ -0,0 +1,106 @@
+import {
+  MonthDay,
+  MONTHS,
+  NOT_AVAILABLE,
+  NOT_FOR_SALE,
+  Price,
+  Schedule,
+} from "../types";
+import { parseSchedule } from "./availability";
+
+const IMAGE_BASE_URL = "https://acnhcdn.com/latest";
+
+/**
+ * Parses a "27-Jan" style date, returning undefined when it isn't one or the
+ * month doesn't have that day.
+ */
+export function parseMonthDay(value: string): MonthDay | undefined {
+  const match = /^(\d{1,2})-([A-Za-z]{3})$/.exec(value);
+  const month = match ? MONTHS.indexOf(match[2]) + 1 : 0;
+  const day = match ? parseInt(match[1], 10) : 0;
+  // Day 0 of the following month is the last day of this one; 2000 is a leap year.
+  const daysInMonth = new Date(2000, month, 0).getDate();
+  return month < 1 || day < 1 || day > daysInMonth ? undefined : { month, day };
+}
+
+/**
+ * A single CSV record, keyed by the original column headers. Every accessor
+ * checks the value and reports the offending row and column when it is invalid.
+ */
+export class Row {
+  constructor(private data: Record<string, string>, private index: number) {}
+
+  public error(column: string, message: string) {
+    // Row numbers are 1-based and account for the header line.
+    return new Error(`Row ${this.index + 2}, column "${column}": ${message}`);
+  }
+
+  public string(column: string): string {
+    return this.data[column];
+  }
+
+  /** Returns undefined for empty and "NA" cells. */
+  public optionalString(column: string): string | undefined {
+    const value = this.data[column];
+    return value === "" || value === "NA" ? undefined : value;
+  }
+
+  public integer(column: string): number {
+    const value = this.data[column];
+    if (!/^\d+$/.test(value ?? "")) {
+      throw this.error(column, `Expected a number, got "${value}"`);
+    }
+    return parseInt(value, 10);
+  }
+
+  public price(column: string): Price {
+    const value = this.data[column];
+    // Items that can't be bought or sold use "NFS", and items without a
+    // price use "NA".
+    if (value === NOT_FOR_SALE || value === NOT_AVAILABLE) {
+      return value;
+    }
+    return this.integer(column);
+  }
+
+  public oneOf<T extends string>(column: string, values: ReadonlyArray<T>): T {
+    const value = this.data[column];
+    if (!values.includes(value as T)) {
+      throw this.error(
+        column,
+        `Expected one of ${values.join(", ")}, got "${value}"`
+      );
+    }
+    return value as T;
+  }
+
+  public boolean(column: string): boolean {
+    return this.oneOf(column, ["Yes", "No"]) === "Yes";
+  }
+
+  /** Parses a "27-Jan" style date. */
+  public monthDay(column: string): MonthDay {
+    const value = this.data[column];
+    const monthDay = parseMonthDay(value ?? "");
+    if (!monthDay) {
+      throw this.error(column, `Expected a date like "27-Jan", got "${value}"`);
+    }
+    return monthDay;
+  }
+
+  public schedules(hemisphere: "NH" | "SH"): Schedule[] {
+    return MONTHS.map((month) => {
+      const column = `${hemisphere} ${month}`;
+      try {
+        return parseSchedule(month, this.data[column]);
+      } catch (error) {
+        throw this.error(column, (error as Error).message);
+      }
+    });
+  }
+
+  /** Builds an acnhcdn image URL from the file name stored in `column`. */
+  public image(folder: string, column: string): string {
+    return `${IMAGE_BASE_URL}/${folder}/${this.data[column]}.png`;
+  }
+}
@@ -0,0 +1,222 @@
+import { buildSearchIndex, writeSearchIndex } from "../features/search";
+import { formatViolation, validateAll } from "../validation";
+import { processDataset } from ".";
+import { writeDatabase } from "./database";
+import { datasetRegistry } from "./datasets";
+import {
+  DatabaseContents,
+  DatasetDefinition,
+  DatasetName,
+  DatasetOutcome,
+  DatasetRecords,
+  OutputFormat,
+  RunReport,
+  StepOutcome,
+} from "./types";
+import { findWarnings } from "./warnings";
+
+// Datasets the search index and the SQLite database are built from.
+const COMBINED_DATASETS: Array<keyof DatabaseContents> = [
+  "fishes",
+  "insects",
+  "seaCreatures",
+  "fossils",
+  "music",
+];
+
+/** Records of every dataset that was processed, by dataset name. */
+type ProcessedRecords<K extends DatasetName = DatasetName> = {
+  [P in K]?: Array<DatasetRecords[P]>;
+};
+
+// Warnings printed per dataset; the run report has all of them.
+const MAX_PRINTED_WARNINGS = 5;
+
+function elapsed(start: number) {
+  return Math.round(performance.now() - start);
+}
+
+async function runDataset<T extends object>(
+  definition: DatasetDefinition<T>,
+  formats: OutputFormat[]
+): Promise<[DatasetOutcome, T[] | undefined]> {
+  const start = performance.now();
+  const outcome: DatasetOutcome = {
+    dataset: definition.label,
+    output: definition.output,
+    status: "succeeded",
+    durationMs: 0,
+    records: 0,
+    warnings: [],
+  };
+
+  let records: T[] | undefined;
+  try {
+    records = await processDataset(definition, formats);
+    outcome.records = records.length;
+    outcome.warnings = findWarnings(definition, records);
+  } catch (error) {
+    outcome.status = "failed";
+    outcome.error = error instanceof Error ? error.message : String(error);
+  }
+  outcome.durationMs = elapsed(start);
+  return [outcome, records];
+}
+
+async function runStep(
+  output: string,
+  missing: string[],
+  write: () => Promise<void>
+): Promise<StepOutcome> {
+  if (missing.length > 0) {
+    return {
+      output,
+      status: "skipped",
+      durationMs: 0,
+      error: `Needs ${missing.join(", ")}, which failed`,
+    };
+  }
+
+  const start = performance.now();
+  try {
+    await write();
+    return { output, status: "succeeded", durationMs: elapsed(start) };
+  } catch (error) {
+    return {
+      output,
+      status: "failed",
+      durationMs: elapsed(start),
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Validates the input files, then processes every dataset and writes the
+ * outputs built from several of them. Failures are recorded in the returned
+ * report instead of being thrown, so one broken dataset doesn't stop the rest.
+ */
+export async function runPipeline(formats: OutputFormat[]): Promise<RunReport> {
+  const start = performance.now();
+  const report: RunReport = {
+    startedAt: new Date().toISOString(),
+    durationMs: 0,
+    formats,
+    success: false,
+    violations: await validateAll(),
+    datasets: [],
+    steps: [],
+  };
+
+  if (report.violations.length === 0) {
+    // Datasets are processed one at a time so their timings don't overlap.
+    const processed: ProcessedRecords = {};
+    const run = async <K extends DatasetName>(name: K) => {
+      const [outcome, records] = await runDataset(
+        datasetRegistry[name],
+        formats
+      );
+      report.datasets.push(outcome);
+      // Narrowed to this dataset, so its records can be stored under its name.
+      const target: ProcessedRecords<K> = processed;
+      target[name] = records;
+    };
+    for (const name of Object.keys(datasetRegistry) as DatasetName[]) {
+      await run(name);
+    }
+
+    const missing = COMBINED_DATASETS.filter((name) => !processed[name]).map(
+      (name) => datasetRegistry[name].label
+    );
+    // Only written when nothing is missing, so the defaults are never used.
+    const {
+      fishes = [],
+      insects = [],
+      seaCreatures = [],
+      fossils = [],
+      music = [],
+    } = processed;
+    const contents: DatabaseContents = {
+      fishes,
+      insects,
+      seaCreatures,
+      fossils,
+      music,
+    };
+
+    report.steps.push(
+      await runStep("search-index.json", missing, () =>
+        writeSearchIndex(buildSearchIndex(contents))
+      )
+    );
+    if (formats.includes("sqlite")) {
+      report.steps.push(
+        await runStep("acnh.sqlite", missing, () =>
+          writeDatabase("data/output/acnh.sqlite", contents)
+        )
+      );
+    }
+  }
+
+  report.durationMs = elapsed(start);
+  report.success =
+    report.violations.length === 0 &&
+    report.datasets.every((it) => it.status === "succeeded") &&
+    report.steps.every((it) => it.status !== "failed");
+  return report;
+}
+
+/** Prints a summary table of the run, followed by its errors and warnings. */
+export function printRunSummary(report: RunReport) {
+  if (report.violations.length > 0) {
+    report.violations.forEach((it) => console.error(formatViolation(it)));
+    console.error(
+      `Found ${report.violations.length} schema violations, nothing was processed`
+    );
+    return;
+  }
+
+  console.table([
+    ...report.datasets.map((it) => ({
+      output: it.output,
+      status: it.status,
+      records: it.records,
+      warnings: it.warnings.length,
+      "time (ms)": it.durationMs,
+    })),
+    ...report.steps.map((it) => ({
+      output: it.output,
+      status: it.status,
+      "time (ms)": it.durationMs,
+    })),
+  ]);
+
+  for (const outcome of report.datasets) {
+    if (outcome.error) {
+      console.error(`${outcome.output} failed: ${outcome.error}`);
+    }
+    for (const warning of outcome.warnings.slice(0, MAX_PRINTED_WARNINGS)) {
+      console.warn(
+        `${outcome.output}: ${warning.record} [${warning.field}] ${warning.message}`
+      );
+    }
+    if (outcome.warnings.length > MAX_PRINTED_WARNINGS) {
+      console.warn(
+        `${outcome.output}: ${
+          outcome.warnings.length - MAX_PRINTED_WARNINGS
+        } more warnings in the run report`
+      );
+    }
+  }
+  for (const step of report.steps) {
+    if (step.error) {
+      console.error(`${step.output} ${step.status}: ${step.error}`);
+    }
+  }
+
+  console.log(
+    report.success
+      ? `Finished in ${report.durationMs} ms`
+      : `Failed after ${report.durationMs} ms, some output is missing or stale`
+  );
+}
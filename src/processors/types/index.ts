@@ -0,0 +1,121 @@
+import {
+  Art,
+  Fish,
+  Fossil,
+  Insect,
+  Music,
+  SeaCreature,
+  Villager,
+} from "../../types";
+import { Violation } from "../../validation/types";
+import { Row } from "../row";
+
+export type OutputFormat = "json" | "ndjson" | "csv" | "sqlite";
+
+export type FieldMapping<T> = (row: Row) => T;
+
+/** Keys of T whose value can't be undefined. */
+type RequiredKeys<T> = {
+  [K in keyof T]-?: undefined extends T[K] ? never : K;
+}[keyof T];
+
+/**
+ * One mapping per field of T. Fields that can be undefined may be left out,
+ * e.g. when `resolve` fills them in later.
+ */
+export type FieldMappings<T> = {
+  [K in RequiredKeys<T>]: FieldMapping<T[K]>;
+} & {
+  [K in Exclude<keyof T, RequiredKeys<T>>]?: FieldMapping<T[K]>;
+};
+
+export interface DatasetDefinition<T> {
+  /** CSV file name under data/input. */
+  input: string;
+  /** JSON file name under data/output. */
+  output: string;
+  /** Top-level key the records are written under. */
+  outputKey: string;
+  /** Plural used in log messages, e.g. "sea creatures". */
+  label: string;
+  /**
+   * Field that identifies a record across game updates, used when diffing
+   * snapshots. Defaults to "internalId".
+   */
+  key?: string;
+  fields: FieldMappings<T>;
+  /**
+   * Runs after every row has been mapped, e.g. to link records to another
+   * dataset.
+   */
+  resolve?: (records: T[]) => Promise<T[]>;
+  /** Additional top-level views written next to the records. */
+  views?: (records: T[]) => Record<string, unknown>;
+}
+
+/** Record type of each dataset, by dataset name. */
+export interface DatasetRecords {
+  fishes: Fish;
+  insects: Insect;
+  seaCreatures: SeaCreature;
+  fossils: Fossil;
+  music: Music;
+  villagers: Villager;
+  art: Art;
+}
+
+export type DatasetName = keyof DatasetRecords;
+
+export type DatasetRegistry = {
+  [K in DatasetName]: DatasetDefinition<DatasetRecords[K]>;
+};
+
+/** The definition of any one of the datasets. */
+export type AnyDatasetDefinition = DatasetRegistry[DatasetName];
+
+/** Everything that goes into the SQLite database. */
+export interface DatabaseContents {
+  fishes: Fish[];
+  insects: Insect[];
+  seaCreatures: SeaCreature[];
+  fossils: Fossil[];
+  music: Music[];
+}
+
+export type OutcomeStatus = "succeeded" | "failed" | "skipped";
+
+/** Something in a processed record that looks wrong but didn't stop the run. */
+export interface RunWarning {
+  record: string;
+  field: string;
+  message: string;
+}
+
+export interface DatasetOutcome {
+  dataset: string;
+  output: string;
+  status: OutcomeStatus;
+  durationMs: number;
+  records: number;
+  warnings: RunWarning[];
+  error?: string;
+}
+
+/** Outputs built from several datasets, such as the search index. */
+export interface StepOutcome {
+  output: string;
+  status: OutcomeStatus;
+  durationMs: number;
+  error?: string;
+}
+
+export interface RunReport {
+  startedAt: string;
+  durationMs: number;
+  formats: OutputFormat[];
+  /** False when validation failed or any dataset or step failed. */
+  success: boolean;
+  violations: Violation[];
+  datasets: DatasetOutcome[];
+  steps: StepOutcome[];
+}
@@ -0,0 +1,60 @@
+import { Availability, Schedule } from "../types";
+import { DatasetDefinition, RunWarning } from "./types";
+
+const PRICE_FIELDS = ["sellAmount", "buyAmount"];
+
+function isNeverAvailable(schedules: Schedule[] | undefined) {
+  return schedules !== undefined && schedules.every((it) => !it.isAvailable);
+}
+
+/**
+ * Looks for values that are probably mistakes in the input: empty text,
+ * stray whitespace, prices of zero, critters that can never be caught and
+ * records sharing a key.
+ */
+export function findWarnings<T extends object>(
+  definition: DatasetDefinition<T>,
+  records: T[]
+): RunWarning[] {
+  const keyField = definition.key ?? "internalId";
+  const warnings: RunWarning[] = [];
+  const seenKeys = new Set<unknown>();
+
+  records.forEach((item, index) => {
+    // Checked field by field, whatever the dataset's record type.
+    const record = item as Record<string, unknown>;
+    const availability = record.availability as Availability | undefined;
+    const label = String(
+      record.name ?? record[keyField] ?? `record ${index + 1}`
+    );
+    const warn = (field: string, message: string) =>
+      warnings.push({ record: label, field, message });
+
+    for (const [field, value] of Object.entries(record)) {
+      if (typeof value === "string" && value.trim() === "") {
+        warn(field, "Empty value");
+      } else if (typeof value === "string" && value.trim() !== value) {
+        warn(field, `Leading or trailing whitespace in "${value}"`);
+      } else if (PRICE_FIELDS.includes(field) && value === 0) {
+        warn(field, "Price of 0 bells");
+      }
+    }
+
+    if (isNeverAvailable(availability?.northernHemisphere)) {
+      warn("availability", "Never available in the northern hemisphere");
+    }
+    if (isNeverAvailable(availability?.southernHemisphere)) {
+      warn("availability", "Never available in the southern hemisphere");
+    }
+
+    const key = record[keyField];
+    if (key === undefined) {
+      warn(keyField, "Missing key");
+    } else if (seenKeys.has(key)) {
+      warn(keyField, `Duplicate key "${key}"`);
+    }
+    seenKeys.add(key);
+  });
+
+  return warnings;
+}
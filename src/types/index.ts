@@ -1,5 +1,58 @@
+export const MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+export type ShadowSize =
+  | "X-Small"
+  | "Small"
+  | "Medium"
+  | "Large"
+  | "X-Large"
+  | "XX-Large"
+  | "X-Large w/Fin"
+  | "Long";
+
+export type CatchDifficulty =
+  | "Very Easy"
+  | "Easy"
+  | "Medium"
+  | "Hard"
+  | "Very Hard";
+
+export type Vision = "Very Narrow" | "Narrow" | "Medium" | "Wide" | "Very Wide";
+
+export type MovementSpeed =
+  | "Stationary"
+  | "Very slow"
+  | "Slow"
+  | "Medium"
+  | "Fast"
+  | "Very fast";
+
+export type InsectWeather = "Any weather" | "Any except rain" | "Rain only";
+
+export const NOT_FOR_SALE = "NFS";
+export const NOT_AVAILABLE = "NA";
+
+/**
+ * Amount in bells, NOT_FOR_SALE when the item can't be bought/sold, or
+ * NOT_AVAILABLE when the source data has no price for it.
+ */
+export type Price = number | typeof NOT_FOR_SALE | typeof NOT_AVAILABLE;
+
 interface AnimalBase {
-  id: string;
+  id: number;
   availability?: Availability;
   catchPhrase?: string;
   description: string;
@@ -7,48 +60,147 @@ interface AnimalBase {
   imageUrl: string;
   internalId: string;
   name: string;
-  sellAmount: string;
+  sellAmount: number;
   where?: string;
 }
 
 export interface Insect extends AnimalBase {
-  weather: string;
+  weather: InsectWeather;
 }
 
 export interface Fish extends AnimalBase {
-  catchDifficulty: string;
-  shadow: string;
-  vision: string;
+  catchDifficulty: CatchDifficulty;
+  shadow: ShadowSize;
+  vision: Vision;
 }
 
 export interface SeaCreature extends AnimalBase {
-  movementSpeed: string;
-  shadow: string;
+  movementSpeed: MovementSpeed;
+  shadow: ShadowSize;
 }
 
 export interface Fossil extends AnimalBase {
   fossilGroup: string;
+  museumRoom: string;
+  source: string;
 }
 
+export type FossilPart = Pick<Fossil, "internalId" | "name" | "sellAmount">;
+
+export interface FossilGroup {
+  name: string;
+  museumRoom: string;
+  parts: FossilPart[];
+  totalSellAmount: number;
+}
+
+/** Moods that can be picked when requesting a song from K.K. Slider. */
+export type KKMood =
+  | "I feel good!"
+  | "Laid-back."
+  | "A little blue..."
+  | "A little grumpy..."
+  | "It's hard to say.";
+
 export interface Music {
-  id: string;
   internalId: string;
   name: string;
-  sellAmount: string;
-  buyAmount: string;
+  sellAmount: Price;
+  buyAmount: Price;
   source: string;
   sourceNotes: string;
+  /** Mood that can make K.K. play this song, if any. */
+  mood?: KKMood;
+  /** Only played when requested by name. */
+  isSecret: boolean;
+  seasonEvent?: string;
+  isEventExclusive: boolean;
   catalog: string;
+  versionAdded: string;
+  isUnlocked: boolean;
+  filename: string;
   framedImageUrl: string;
   albumImageUrl: string;
 }
 
+export interface HourRange {
+  /** Hour of the day (0-23) the window opens. */
+  start: number;
+  /** Hour the window closes (exclusive); lower than `start` when it wraps past midnight. */
+  end: number;
+}
+
 export interface Schedule {
   month: string;
   availability: string;
+  isAvailable: boolean;
+  hours: HourRange[];
+  hourMask: boolean[];
 }
 
-interface Availability {
+export interface Availability {
   northernHemisphere: Schedule[];
   southernHemisphere: Schedule[];
 }
+
+export type Personality =
+  | "Big sister"
+  | "Cranky"
+  | "Jock"
+  | "Lazy"
+  | "Normal"
+  | "Peppy"
+  | "Smug"
+  | "Snooty";
+
+export type Gender = "Male" | "Female";
+
+export type Hobby =
+  | "Education"
+  | "Fashion"
+  | "Fitness"
+  | "Music"
+  | "Nature"
+  | "Play";
+
+export interface MonthDay {
+  /** 1-12 */
+  month: number;
+  day: number;
+}
+
+export interface Villager {
+  uniqueEntryId: string;
+  name: string;
+  species: string;
+  personality: Personality;
+  gender: Gender;
+  birthday: MonthDay;
+  catchPhrase: string;
+  hobby: Hobby;
+  favoriteSong: string;
+  /** `internalId` of the matching Music record, if there is one. */
+  favoriteSongId?: string;
+  iconUrl: string;
+  photoUrl: string;
+  houseImageUrl: string;
+}
+
+export type ArtType = "Painting" | "Statue";
+
+export interface Art {
+  internalId: string;
+  name: string;
+  type: ArtType;
+  buyAmount: Price;
+  sellAmount: Price;
+  realArtworkTitle: string;
+  artist: string;
+  description: string;
+  museumRoom: string;
+  hasFake: boolean;
+  /** How to tell the fake apart from the genuine piece. */
+  fakeDifference?: string;
+  genuineImageUrl: string;
+  fakeImageUrl?: string;
+}
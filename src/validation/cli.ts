@@ -0,0 +1,14 @@
+import { formatViolation, validateAll } from ".";
+
+const violations = await validateAll();
+
+for (const violation of violations) {
+  console.error(formatViolation(violation));
+}
+
+if (violations.length > 0) {
+  console.error(`Found ${violations.length} schema violations`);
+  process.exit(1);
+}
+
+console.log("All input files match their schemas");
@@ -0,0 +1,62 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { validateDataset } from ".";
+import { villagerSchema } from "./schemas";
+
+const villager = (birthday: string) =>
+  [
+    "Ankha",
+    "Cat",
+    "Female",
+    "Snooty",
+    "Education",
+    birthday,
+    "me meow",
+    "Surfin' K.K.",
+    "cat23",
+    "NpcNmlCat23",
+    "cat23",
+    "AhKtu2i9Ne6bT7aCN",
+  ].join(",");
+
+let directory: string;
+
+beforeAll(async () => {
+  directory = await mkdtemp(join(tmpdir(), "acnh-validation-"));
+  await Bun.write(
+    join(directory, "villagers.csv"),
+    [
+      villagerSchema.columns.map((column) => column.name).join(","),
+      villager("22-Sep"),
+      villager("29-Feb"),
+      villager("31-Feb"),
+      villager("Sep-22"),
+    ].join("\n")
+  );
+});
+
+afterAll(async () => {
+  await rm(directory, { recursive: true });
+});
+
+describe("validateDataset", () => {
+  test("reports every birthday that isn't a real date", async () => {
+    const violations = await validateDataset(villagerSchema, directory);
+    expect(violations).toEqual([
+      {
+        file: `${directory}/villagers.csv`,
+        line: 4,
+        column: "Birthday",
+        message: 'Expected a date like "27-Jan", got "31-Feb"',
+      },
+      {
+        file: `${directory}/villagers.csv`,
+        line: 5,
+        column: "Birthday",
+        message: 'Expected a date like "27-Jan", got "Sep-22"',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,98 @@
+import { parse } from "csv-parse/sync";
+import { parseHourRanges } from "../processors/availability";
+import { parseMonthDay } from "../processors/row";
+import { schemas } from "./schemas";
+import { ColumnSchema, DatasetSchema, Violation } from "./types";
+
+// "NFS" (not for sale) and "NA" are used in price columns instead of a number.
+const NON_NUMERIC_PRICES = ["NFS", "NA"];
+
+function validateValue(value: string, column: ColumnSchema): string | null {
+  if (value === "") {
+    return column.optional ? null : "Value is required";
+  }
+
+  switch (column.type) {
+    case "integer":
+      return /^\d+$/.test(value) ? null : `Expected a number, got "${value}"`;
+    case "price":
+      return /^\d+$/.test(value) || NON_NUMERIC_PRICES.includes(value)
+        ? null
+        : `Expected a price or one of ${NON_NUMERIC_PRICES.join(
+            ", "
+          )}, got "${value}"`;
+    case "enum":
+      return column.values?.includes(value)
+        ? null
+        : `Expected one of ${column.values?.join(", ")}, got "${value}"`;
+    case "schedule":
+      return parseHourRanges(value)
+        ? null
+        : `Unrecognized availability "${value}"`;
+    case "date":
+      return parseMonthDay(value)
+        ? null
+        : `Expected a date like "27-Jan", got "${value}"`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Checks a CSV file against its schema and returns every violation found,
+ * rather than stopping at the first one.
+ */
+export async function validateDataset(
+  schema: DatasetSchema,
+  directory = "data/input"
+): Promise<Array<Violation>> {
+  const file = `${directory}/${schema.file}`;
+  const violations: Array<Violation> = [];
+  let headers: Array<string> = [];
+
+  const rows = parse(await Bun.file(file).text(), {
+    columns: (header: Array<string>) => (headers = header),
+    skip_empty_lines: true,
+    info: true,
+  });
+
+  const columns = schema.columns.filter((column) => {
+    if (headers.includes(column.name)) {
+      return true;
+    }
+    violations.push({
+      file,
+      line: 1,
+      column: column.name,
+      message: "Missing required column",
+    });
+    return false;
+  });
+
+  for (const { record, info } of rows) {
+    for (const column of columns) {
+      const message = validateValue(record[column.name], column);
+      if (message) {
+        violations.push({
+          file,
+          line: info.lines,
+          column: column.name,
+          message,
+        });
+      }
+    }
+  }
+
+  return violations;
+}
+
+export async function validateAll(directory = "data/input") {
+  const results = await Promise.all(
+    schemas.map((schema) => validateDataset(schema, directory))
+  );
+  return results.flat();
+}
+
+export function formatViolation(violation: Violation) {
+  return `${violation.file}:${violation.line} [${violation.column}] ${violation.message}`;
+}
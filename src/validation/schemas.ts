@@ -0,0 +1,208 @@
+import {
+  ArtType,
+  CatchDifficulty,
+  Gender,
+  Hobby,
+  InsectWeather,
+  KKMood,
+  MONTHS,
+  MovementSpeed,
+  Personality,
+  ShadowSize,
+  Vision,
+} from "../types";
+import { ColumnSchema, DatasetSchema } from "./types";
+
+export const SHADOW_SIZES: Array<ShadowSize> = [
+  "X-Small",
+  "Small",
+  "Medium",
+  "Large",
+  "X-Large",
+  "XX-Large",
+  "X-Large w/Fin",
+  "Long",
+];
+export const CATCH_DIFFICULTIES: Array<CatchDifficulty> = [
+  "Very Easy",
+  "Easy",
+  "Medium",
+  "Hard",
+  "Very Hard",
+];
+export const VISIONS: Array<Vision> = [
+  "Very Narrow",
+  "Narrow",
+  "Medium",
+  "Wide",
+  "Very Wide",
+];
+export const MOVEMENT_SPEEDS: Array<MovementSpeed> = [
+  "Stationary",
+  "Very slow",
+  "Slow",
+  "Medium",
+  "Fast",
+  "Very fast",
+];
+export const WEATHERS: Array<InsectWeather> = [
+  "Any weather",
+  "Any except rain",
+  "Rain only",
+];
+
+export const PERSONALITIES: Array<Personality> = [
+  "Big sister",
+  "Cranky",
+  "Jock",
+  "Lazy",
+  "Normal",
+  "Peppy",
+  "Smug",
+  "Snooty",
+];
+export const KK_MOODS: Array<KKMood> = [
+  "I feel good!",
+  "Laid-back.",
+  "A little blue...",
+  "A little grumpy...",
+  "It's hard to say.",
+];
+export const ART_TYPES: Array<ArtType> = ["Painting", "Statue"];
+export const GENDERS: Array<Gender> = ["Male", "Female"];
+export const HOBBIES: Array<Hobby> = [
+  "Education",
+  "Fashion",
+  "Fitness",
+  "Music",
+  "Nature",
+  "Play",
+];
+
+const scheduleColumns: Array<ColumnSchema> = ["NH", "SH"].flatMap(
+  (hemisphere) =>
+    MONTHS.map((month) => ({
+      name: `${hemisphere} ${month}`,
+      type: "schedule" as const,
+    }))
+);
+
+const critterColumns: Array<ColumnSchema> = [
+  { name: "id", type: "integer" },
+  { name: "Name", type: "string" },
+  { name: "Sell", type: "integer" },
+  { name: "Description", type: "string" },
+  { name: "Catch phrase", type: "string" },
+  { name: "Icon Filename", type: "string" },
+  { name: "Critterpedia Filename", type: "string" },
+  { name: "Internal ID", type: "integer" },
+  ...scheduleColumns,
+];
+
+export const fishSchema: DatasetSchema = {
+  file: "fish.csv",
+  columns: [
+    ...critterColumns,
+    { name: "Where/How", type: "string" },
+    { name: "Shadow", type: "enum", values: SHADOW_SIZES },
+    { name: "Catch Difficulty", type: "enum", values: CATCH_DIFFICULTIES },
+    { name: "Vision", type: "enum", values: VISIONS },
+  ],
+};
+
+export const insectSchema: DatasetSchema = {
+  file: "insects.csv",
+  columns: [
+    ...critterColumns,
+    { name: "Where/How", type: "string" },
+    { name: "Weather", type: "enum", values: WEATHERS },
+  ],
+};
+
+export const seaCreatureSchema: DatasetSchema = {
+  file: "sea-creatures.csv",
+  columns: [
+    ...critterColumns,
+    { name: "Shadow", type: "enum", values: SHADOW_SIZES },
+    { name: "Movement Speed", type: "enum", values: MOVEMENT_SPEEDS },
+  ],
+};
+
+export const fossilSchema: DatasetSchema = {
+  file: "fossils.csv",
+  columns: [
+    { name: "Name", type: "string" },
+    { name: "Sell", type: "integer" },
+    { name: "Fossil Group", type: "string" },
+    { name: "Museum", type: "string" },
+    { name: "Source", type: "string" },
+    { name: "Description", type: "string" },
+    { name: "Filename", type: "string" },
+    { name: "Internal ID", type: "integer" },
+  ],
+};
+
+export const musicSchema: DatasetSchema = {
+  file: "music.csv",
+  columns: [
+    { name: "Name", type: "string" },
+    { name: "Buy", type: "price" },
+    { name: "Sell", type: "price" },
+    { name: "Source", type: "string" },
+    { name: "Source Notes", type: "string", optional: true },
+    { name: "Season/Event", type: "string" },
+    { name: "Season/Event Exclusive", type: "enum", values: ["Yes", "NA"] },
+    { name: "Catalog", type: "string" },
+    { name: "Version Added", type: "string" },
+    { name: "Unlocked?", type: "enum", values: ["Yes", "No"] },
+    { name: "Filename", type: "string" },
+    { name: "Internal ID", type: "integer" },
+  ],
+};
+
+export const villagerSchema: DatasetSchema = {
+  file: "villagers.csv",
+  columns: [
+    { name: "Name", type: "string" },
+    { name: "Species", type: "string" },
+    { name: "Gender", type: "enum", values: GENDERS },
+    { name: "Personality", type: "enum", values: PERSONALITIES },
+    { name: "Hobby", type: "enum", values: HOBBIES },
+    { name: "Birthday", type: "date" },
+    { name: "Catchphrase", type: "string" },
+    { name: "Favorite Song", type: "string" },
+    { name: "Icon Filename", type: "string" },
+    { name: "Photo Filename", type: "string" },
+    { name: "House Filename", type: "string" },
+    { name: "Unique Entry ID", type: "string" },
+  ],
+};
+
+export const artSchema: DatasetSchema = {
+  file: "art.csv",
+  columns: [
+    { name: "Name", type: "string" },
+    { name: "Type", type: "enum", values: ART_TYPES },
+    { name: "Has Fake", type: "enum", values: ["Yes", "No"] },
+    { name: "Buy", type: "price" },
+    { name: "Sell", type: "price" },
+    { name: "Real Artwork Title", type: "string" },
+    { name: "Artist", type: "string" },
+    { name: "Description", type: "string" },
+    { name: "Fake Difference", type: "string", optional: true },
+    { name: "Museum", type: "string" },
+    { name: "Genuine Filename", type: "string" },
+    { name: "Fake Filename", type: "string", optional: true },
+    { name: "Internal ID", type: "integer" },
+  ],
+};
+
+export const schemas = [
+  fishSchema,
+  insectSchema,
+  seaCreatureSchema,
+  fossilSchema,
+  musicSchema,
+  villagerSchema,
+  artSchema,
+];
@@ -0,0 +1,28 @@
+export type ColumnType =
+  | "string"
+  | "integer"
+  | "price"
+  | "enum"
+  | "schedule"
+  | "date";
+
+export interface ColumnSchema {
+  name: string;
+  type: ColumnType;
+  /** Allowed values for `enum` columns. */
+  values?: Array<string>;
+  /** When true an empty cell is accepted. */
+  optional?: boolean;
+}
+
+export interface DatasetSchema {
+  file: string;
+  columns: Array<ColumnSchema>;
+}
+
+export interface Violation {
+  file: string;
+  line: number;
+  column: string;
+  message: string;
+}